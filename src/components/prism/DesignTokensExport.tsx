@@ -0,0 +1,146 @@
+import { Braces, Check, Copy, Download } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { downloadFile } from '@/lib/download';
+import type { GradientLayer } from '@/lib/gradient';
+import {
+  DEFAULT_TOKEN_NAMES,
+  formatDesignTokens,
+  generateDesignTokens,
+  getDefaultColorName,
+  type TokenFormat,
+  type TokenNames,
+  toTokenName
+} from '@/lib/tokens';
+
+interface DesignTokensExportProps {
+  colors: ColorInfo[];
+  layers: GradientLayer[];
+}
+
+/**
+ * Design token export: DTCG JSON (or Style Dictionary's legacy format)
+ * with editable token names, to copy or download as `.tokens.json`
+ */
+export function DesignTokensExport({ colors, layers }: DesignTokensExportProps) {
+  const [format, setFormat] = useState<TokenFormat>('dtcg');
+  const [names, setNames] = useState<TokenNames>(DEFAULT_TOKEN_NAMES);
+  const [copied, setCopied] = useState(false);
+
+  const json = useMemo(
+    () => formatDesignTokens(generateDesignTokens(colors, layers, names, format)),
+    [colors, layers, names, format]
+  );
+
+  const setColorName = (colorId: string, name: string) => {
+    setNames(prev => ({ ...prev, colors: { ...prev.colors, [colorId]: name } }));
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(json);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const filename = `${toTokenName(names.group) || DEFAULT_TOKEN_NAMES.group}.tokens.json`;
+    downloadFile(json, filename, 'application/json');
+  };
+
+  return (
+    <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
+      <CardContent className="p-2 lg:p-8 space-y-6">
+        <div className="flex flex-col lg:flex-row items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-2xl">
+              <Braces className="w-5 h-5 text-primary" />
+            </div>
+            <h2 className="text-xl font-semibold text-[#0C0D7A]">Design Tokens</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="rounded-full" onClick={handleCopy}>
+              {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button className="rounded-full" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download .tokens.json
+            </Button>
+          </div>
+        </div>
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={format}
+          onValueChange={(value) => value && setFormat(value as TokenFormat)}
+          className="w-full"
+        >
+          <ToggleGroupItem value="dtcg" className="flex-1">
+            DTCG
+          </ToggleGroupItem>
+          <ToggleGroupItem value="style-dictionary" className="flex-1">
+            Style Dictionary (legacy)
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-group" className="text-sm font-medium text-[#0C0D7A]">
+              Group
+            </Label>
+            <Input
+              id="token-group"
+              value={names.group}
+              onChange={(e) => setNames(prev => ({ ...prev, group: e.target.value }))}
+              placeholder={DEFAULT_TOKEN_NAMES.group}
+              className="rounded-xl"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="token-gradient" className="text-sm font-medium text-[#0C0D7A]">
+              Gradient name
+            </Label>
+            <Input
+              id="token-gradient"
+              value={names.gradient}
+              onChange={(e) => setNames(prev => ({ ...prev, gradient: e.target.value }))}
+              placeholder={DEFAULT_TOKEN_NAMES.gradient}
+              className="rounded-xl"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-[#0C0D7A]">Color names</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {colors.map((color, index) => (
+              <div key={color.id} className="flex items-center gap-2">
+                <div className="w-8 h-8 shrink-0 rounded-lg soft-shadow" style={{ backgroundColor: color.hex }} />
+                <Input
+                  value={names.colors[color.id] ?? ''}
+                  onChange={(e) => setColorName(color.id, e.target.value)}
+                  placeholder={getDefaultColorName(index)}
+                  aria-label={`Token name for ${color.hex}`}
+                  className="rounded-xl"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Names are lowercased and joined with dashes; duplicates get a number
+          </p>
+        </div>
+
+        <div className="bg-muted/50 rounded-2xl p-6 font-mono text-sm overflow-auto max-h-96">
+          <code className="text-[#0C0D7A] whitespace-pre">{json}</code>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+import { ArrowRight } from 'lucide-react';
+import type React from 'react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { EASING_PRESETS, type Easing, type EasingPreset, evaluateEasing, getEasingPreset, LINEAR_EASING } from '@/lib/easing';
+
+interface EasingEditorProps {
+  /** Colors drawn by the gradient, in order; each adjacent pair is a segment */
+  colors: ColorInfo[];
+  /** Easing per segment, keyed by the id of the segment's first color */
+  easings: Record<string, Easing>;
+  onChange: (easings: Record<string, Easing>) => void;
+}
+
+type EasingChoice = 'linear' | EasingPreset | 'custom' | 'steps';
+
+const EASING_LABELS: Record<EasingChoice, string> = {
+  linear: 'Linear',
+  'ease-in': 'Ease in',
+  'ease-out': 'Ease out',
+  'ease-in-out': 'Ease in-out',
+  custom: 'Custom curve',
+  steps: 'Steps'
+};
+
+/** Size of the curve editor in SVG units, and the padding around the unit square */
+const CURVE_SIZE = 100;
+const CURVE_PADDING = 8;
+
+function getEasingChoice(easing: Easing): EasingChoice {
+  if (easing.type === 'linear' || easing.type === 'steps') return easing.type;
+  return getEasingPreset(easing) ?? 'custom';
+}
+
+function createEasing(choice: EasingChoice, current: Easing): Easing {
+  switch (choice) {
+    case 'linear':
+      return LINEAR_EASING;
+    case 'steps':
+      return { type: 'steps', count: current.type === 'steps' ? current.count : 4 };
+    case 'custom':
+      return current.type === 'cubic-bezier' ? current : { type: 'cubic-bezier', x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 };
+    default:
+      return EASING_PRESETS[choice];
+  }
+}
+
+/**
+ * Unit-square curve editor with two draggable bezier control points
+ */
+function BezierCurve({
+  easing,
+  onChange
+}: {
+  easing: Easing;
+  onChange: (easing: Extract<Easing, { type: 'cubic-bezier' }>) => void;
+}) {
+  const [dragging, setDragging] = useState<1 | 2 | null>(null);
+  const toSvg = (x: number, y: number) => ({ cx: x * CURVE_SIZE, cy: (1 - y) * CURVE_SIZE });
+
+  // Sampled curve; also shows steps and presets, which are not draggable
+  const path = Array.from({ length: 41 }, (_, i) => {
+    const { cx, cy } = toSvg(i / 40, evaluateEasing(easing, i / 40));
+    return `${i === 0 ? 'M' : 'L'}${cx.toFixed(2)},${cy.toFixed(2)}`;
+  }).join(' ');
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging || easing.type !== 'cubic-bezier') return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = rect.width / (CURVE_SIZE + CURVE_PADDING * 2);
+    const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+    const x = clamp((e.clientX - rect.left) / scale / CURVE_SIZE - CURVE_PADDING / CURVE_SIZE);
+    const y = clamp(1 - ((e.clientY - rect.top) / scale / CURVE_SIZE - CURVE_PADDING / CURVE_SIZE));
+    onChange(dragging === 1 ? { ...easing, x1: x, y1: y } : { ...easing, x2: x, y2: y });
+  };
+
+  // Each control point is drawn with a line to its curve endpoint
+  const handles: { id: 1 | 2; x: number; y: number; anchor: number }[] =
+    easing.type === 'cubic-bezier'
+      ? [
+          { id: 1, x: easing.x1, y: easing.y1, anchor: 0 },
+          { id: 2, x: easing.x2, y: easing.y2, anchor: 1 }
+        ]
+      : [];
+
+  return (
+    <svg
+      viewBox={`${-CURVE_PADDING} ${-CURVE_PADDING} ${CURVE_SIZE + CURVE_PADDING * 2} ${CURVE_SIZE + CURVE_PADDING * 2}`}
+      className="w-40 h-40 shrink-0 rounded-2xl bg-muted/50 touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+      role="img"
+      aria-label="Easing curve"
+    >
+      <rect x={0} y={0} width={CURVE_SIZE} height={CURVE_SIZE} className="fill-background stroke-border" strokeWidth={0.5} />
+      <line x1={0} y1={CURVE_SIZE} x2={CURVE_SIZE} y2={0} className="stroke-border" strokeDasharray="2 2" strokeWidth={0.5} />
+      {handles.map(({ id, x, y, anchor: endpoint }) => {
+        const anchor = toSvg(endpoint, endpoint);
+        const handle = toSvg(x, y);
+        return (
+          <line
+            key={`line-${id}`}
+            x1={anchor.cx}
+            y1={anchor.cy}
+            x2={handle.cx}
+            y2={handle.cy}
+            className="stroke-muted-foreground"
+            strokeWidth={1}
+          />
+        );
+      })}
+      <path d={path} className="fill-none stroke-primary" strokeWidth={2} />
+      {handles.map(({ id, x, y }) => (
+        <circle
+          key={`handle-${id}`}
+          {...toSvg(x, y)}
+          r={5}
+          className="fill-primary stroke-background cursor-grab"
+          strokeWidth={2}
+          onPointerDown={(e) => {
+            e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+            setDragging(id);
+          }}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Per-segment easing: curves add computed intermediate stops so the
+ * transitions between palette colors don't show hard bands
+ */
+export function EasingEditor({ colors, easings, onChange }: EasingEditorProps) {
+  const segments = colors.slice(0, -1).map((color, index) => ({ from: color, to: colors[index + 1] }));
+  const [segmentId, setSegmentId] = useState<string | null>(null);
+
+  if (segments.length === 0) return null;
+
+  const segment = segments.find(s => s.from.id === segmentId) ?? segments[0];
+  const easing = easings[segment.from.id] ?? LINEAR_EASING;
+  const choice = getEasingChoice(easing);
+
+  const updateEasing = (next: Easing) => {
+    onChange({ ...easings, [segment.from.id]: next });
+  };
+
+  const applyToAll = () => {
+    onChange(Object.fromEntries(segments.map(s => [s.from.id, easing])));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="text-base font-medium text-[#0C0D7A]">Easing</Label>
+        <Button variant="outline" size="sm" className="rounded-full" onClick={applyToAll}>
+          Apply to all segments
+        </Button>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={segment.from.id}
+        onValueChange={(value) => value && setSegmentId(value)}
+        className="flex-wrap justify-start"
+      >
+        {segments.map(({ from, to }) => (
+          <ToggleGroupItem
+            key={from.id}
+            value={from.id}
+            aria-label={`Segment from ${from.hex} to ${to.hex}`}
+            className="gap-1 px-2"
+          >
+            <span className="w-4 h-4 rounded-md" style={{ backgroundColor: from.hex }} />
+            <ArrowRight className="w-3 h-3" />
+            <span className="w-4 h-4 rounded-md" style={{ backgroundColor: to.hex }} />
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <BezierCurve easing={easing} onChange={updateEasing} />
+        <div className="flex-1 space-y-4">
+          <Select value={choice} onValueChange={(value) => updateEasing(createEasing(value as EasingChoice, easing))}>
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EASING_LABELS) as EasingChoice[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {EASING_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {easing.type === 'steps' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-[#0C0D7A]">Steps</Label>
+                <span className="text-xs font-mono text-muted-foreground">{easing.count}</span>
+              </div>
+              <Slider
+                value={[easing.count]}
+                onValueChange={(value) => updateEasing({ type: 'steps', count: value[0] })}
+                min={2}
+                max={12}
+                step={1}
+                aria-label="Steps"
+              />
+            </div>
+          )}
+
+          {easing.type === 'cubic-bezier' && (
+            <p className="text-xs font-mono text-muted-foreground">
+              cubic-bezier({easing.x1}, {easing.y1}, {easing.x2}, {easing.y2})
+            </p>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {easing.type === 'linear'
+              ? 'Pick a curve to smooth out visible bands at the color stops'
+              : easing.type === 'steps'
+                ? 'Splits the segment into hard-edged bands'
+                : 'Drag the handles to shape the transition; extra stops are added to the CSS'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
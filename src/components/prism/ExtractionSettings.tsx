@@ -0,0 +1,211 @@
+import { ChevronDown, Shuffle, SlidersHorizontal } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { DEFAULT_EXTRACTION_OPTIONS, type ExtractionOptions } from '@/lib/colorExtractor';
+import type { ColorSpace } from '@/lib/colorSpace';
+import type { QuantizerName } from '@/lib/quantizers';
+
+interface ExtractionSettingsProps {
+  options: ExtractionOptions;
+  onChange: (options: ExtractionOptions) => void;
+}
+
+interface ThresholdSliderProps {
+  label: string;
+  value: number;
+  max: number;
+  disabled?: boolean;
+  hint: string;
+  onChange: (value: number) => void;
+}
+
+function ThresholdSlider({ label, value, max, disabled, hint, onChange }: ThresholdSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm text-[#0C0D7A]">{label}</Label>
+        <span className="text-xs font-mono text-muted-foreground">{value}</span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(v) => onChange(v[0])}
+        min={0}
+        max={max}
+        step={1}
+        disabled={disabled}
+        aria-label={label}
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+}
+
+/**
+ * Quantization algorithm, color space and pixel filter controls
+ */
+export function ExtractionSettings({ options, onChange }: ExtractionSettingsProps) {
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const settings = { ...DEFAULT_EXTRACTION_OPTIONS, ...options };
+
+  const update = (patch: Partial<ExtractionOptions>) => {
+    onChange({ ...options, ...patch });
+  };
+
+  return (
+    <>
+      {/* Quantization Algorithm */}
+      <div className="mb-6 space-y-3">
+        <Label className="text-sm font-medium text-[#0C0D7A]">Algorithm</Label>
+        <div className="flex items-center gap-4">
+          <Select
+            value={settings.algorithm}
+            onValueChange={(value) => update({ algorithm: value as QuantizerName })}
+          >
+            <SelectTrigger className="flex-1 rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="median-cut">Median cut</SelectItem>
+              <SelectItem value="k-means">K-means++</SelectItem>
+            </SelectContent>
+          </Select>
+          {settings.algorithm === 'k-means' && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                value={settings.seed ?? 0}
+                onChange={(e) => update({ seed: Math.max(0, Math.floor(Number(e.target.value))) })}
+                min={0}
+                aria-label="Random seed"
+                className="w-24 text-center rounded-xl"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                className="rounded-xl"
+                aria-label="New random seed"
+                onClick={() => update({ seed: Math.floor(Math.random() * 100000) })}
+              >
+                <Shuffle className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {settings.algorithm === 'k-means'
+            ? 'Returns exactly the requested number of colors; the same seed gives the same palette'
+            : 'Fast splitting by the widest color channel'}
+        </p>
+      </div>
+
+      {/* Quantization Color Space */}
+      <div className="mb-6 space-y-3">
+        <Label className="text-sm font-medium text-[#0C0D7A]">Color Space</Label>
+        <Select
+          value={settings.colorSpace}
+          onValueChange={(value) => update({ colorSpace: value as ColorSpace })}
+        >
+          <SelectTrigger className="rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="srgb">sRGB</SelectItem>
+            <SelectItem value="oklab">OKLab (ΔEOK)</SelectItem>
+            <SelectItem value="cielab">CIELAB (CIEDE2000)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {settings.colorSpace === 'srgb'
+            ? 'Raw RGB distances; fastest'
+            : 'Perceptual quantization that keeps distinct dark tones apart'}
+        </p>
+      </div>
+
+      {/* Pixel Filtering */}
+      <Collapsible open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen} className="mb-6">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" className="w-full justify-between rounded-xl px-3 text-[#0C0D7A]">
+            <span className="flex items-center gap-2">
+              <SlidersHorizontal className="w-4 h-4" />
+              Advanced pixel filtering
+            </span>
+            <ChevronDown
+              className={`w-4 h-4 transition-transform duration-200 ${isAdvancedOpen ? 'rotate-180' : ''}`}
+            />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-5 pt-4 px-3">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="include-neutrals" className="text-sm text-[#0C0D7A]">
+                Include neutrals
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Keep near-white and near-black pixels, e.g. a product on a white background
+              </p>
+            </div>
+            <Switch
+              id="include-neutrals"
+              checked={settings.includeNeutrals}
+              onCheckedChange={(checked) => update({ includeNeutrals: checked })}
+            />
+          </div>
+
+          <ThresholdSlider
+            label="Near-white threshold"
+            value={settings.whiteThreshold}
+            max={255}
+            disabled={settings.includeNeutrals}
+            hint="Pixels brighter than this on every channel are skipped"
+            onChange={(value) => update({ whiteThreshold: value })}
+          />
+          <ThresholdSlider
+            label="Near-black threshold"
+            value={settings.blackThreshold}
+            max={255}
+            disabled={settings.includeNeutrals}
+            hint="Pixels darker than this on every channel are skipped"
+            onChange={(value) => update({ blackThreshold: value })}
+          />
+          <ThresholdSlider
+            label="Alpha threshold"
+            value={settings.alphaThreshold}
+            max={255}
+            hint="Pixels at or below this opacity are skipped"
+            onChange={(value) => update({ alphaThreshold: value })}
+          />
+          <ThresholdSlider
+            label="Minimum saturation"
+            value={settings.minSaturation}
+            max={100}
+            hint="Skip grayish pixels below this saturation (%)"
+            onChange={(value) => update({ minSaturation: value })}
+          />
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full"
+            onClick={() =>
+              update({
+                alphaThreshold: DEFAULT_EXTRACTION_OPTIONS.alphaThreshold,
+                whiteThreshold: DEFAULT_EXTRACTION_OPTIONS.whiteThreshold,
+                blackThreshold: DEFAULT_EXTRACTION_OPTIONS.blackThreshold,
+                includeNeutrals: DEFAULT_EXTRACTION_OPTIONS.includeNeutrals,
+                minSaturation: DEFAULT_EXTRACTION_OPTIONS.minSaturation
+              })
+            }
+          >
+            Reset filters
+          </Button>
+        </CollapsibleContent>
+      </Collapsible>
+    </>
+  );
+}
@@ -0,0 +1,242 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import type { ColorStop } from '@/lib/gradient';
+
+interface GradientBarProps {
+  /** Stops of the edited layer, ordered by position */
+  stops: ColorStop[];
+  /** Left-to-right preview of the layer */
+  background: string;
+  /** Ids of segments whose color hint has no effect (eased segments) */
+  lockedHints?: Set<string>;
+  onStopChange: (colorId: string, position: number) => void;
+  /** Set or clear (undefined) the end of a two-position stop */
+  onStopEndChange: (colorId: string, end: number | undefined) => void;
+  onStopRemove: (colorId: string) => void;
+  onStopAdd: (position: number) => void;
+  onHintChange: (colorId: string, hint: number | undefined) => void;
+}
+
+type DragState =
+  | { kind: 'stop'; id: string; removing: boolean }
+  | { kind: 'end'; id: string }
+  | { kind: 'hint'; id: string };
+
+/** Width a stop takes when it is first split into a two-position stop */
+const DEFAULT_HOLD = 10;
+
+/** How far (px) a handle must be dragged away from the bar to remove its stop */
+const REMOVE_DISTANCE = 40;
+
+/** Keep hints off the stops themselves, where they would make a hard edge */
+const MIN_HINT = 0.05;
+const MAX_HINT = 0.95;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Gradient bar with a draggable handle per stop and a color hint
+ * (midpoint) diamond between neighbouring stops.
+ * Click the bar to add a stop; drag a handle off the bar to remove it;
+ * double-click a handle to turn it into a two-position (hard) stop.
+ */
+export function GradientBar({
+  stops,
+  background,
+  lockedHints,
+  onStopChange,
+  onStopEndChange,
+  onStopRemove,
+  onStopAdd,
+  onHintChange
+}: GradientBarProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const getPosition = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return clamp(((clientX - rect.left) / rect.width) * 100, 0, 100);
+  };
+
+  const segments = stops.slice(0, -1).map((stop, index) => ({ stop, next: stops[index + 1] }));
+
+  const handleStopPointerMove = (e: React.PointerEvent, id: string) => {
+    if (drag?.kind !== 'stop' || drag.id !== id) return;
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const distance = Math.abs(e.clientY - (rect.top + rect.height / 2)) - rect.height / 2;
+    const removing = stops.length > 1 && distance > REMOVE_DISTANCE;
+    if (removing !== drag.removing) setDrag({ ...drag, removing });
+    if (!removing) onStopChange(id, Math.round(getPosition(e.clientX)));
+  };
+
+  const handleStopPointerUp = (id: string) => {
+    if (drag?.kind === 'stop' && drag.id === id && drag.removing) {
+      onStopRemove(id);
+    }
+    setDrag(null);
+  };
+
+  const handleStopKeyDown = (e: React.KeyboardEvent, stop: ColorStop) => {
+    const step = e.shiftKey ? 10 : 1;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      onStopChange(stop.color.id, clamp(stop.position - step, 0, 100));
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      onStopChange(stop.color.id, clamp(stop.position + step, 0, 100));
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && stops.length > 1) {
+      e.preventDefault();
+      onStopRemove(stop.color.id);
+    }
+  };
+
+  const handleEndPointerMove = (e: React.PointerEvent, stop: ColorStop) => {
+    if (drag?.kind !== 'end' || drag.id !== stop.color.id) return;
+    onStopEndChange(stop.color.id, Math.max(stop.position, Math.round(getPosition(e.clientX))));
+  };
+
+  const toggleHold = (stop: ColorStop) => {
+    onStopEndChange(
+      stop.color.id,
+      stop.end === undefined ? Math.min(100, stop.position + DEFAULT_HOLD) : undefined
+    );
+  };
+
+  const handleHintPointerMove = (e: React.PointerEvent, stop: ColorStop, next: ColorStop) => {
+    if (drag?.kind !== 'hint' || drag.id !== stop.color.id) return;
+    const start = stop.end ?? stop.position;
+    const hint = (getPosition(e.clientX) - start) / (next.position - start);
+    onHintChange(stop.color.id, Math.round(clamp(hint, MIN_HINT, MAX_HINT) * 100) / 100);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative pt-5 pb-8 select-none">
+        {/* Color hints */}
+        {segments.map(({ stop, next }) => {
+          const start = stop.end ?? stop.position;
+          if (next.position <= start || lockedHints?.has(stop.color.id)) return null;
+          const hint = stop.hint ?? 0.5;
+          const left = start + (next.position - start) * hint;
+          return (
+            <div
+              key={`hint-${stop.color.id}`}
+              role="slider"
+              tabIndex={0}
+              aria-label={`Midpoint between ${stop.color.hex} and ${next.color.hex}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(hint * 100)}
+              className={`absolute top-1 w-3 h-3 -translate-x-1/2 rotate-45 border-2 border-primary cursor-ew-resize touch-none ${
+                stop.hint === undefined ? 'bg-background' : 'bg-primary'
+              }`}
+              style={{ left: `${left}%` }}
+              title="Drag to move the midpoint; double-click to reset"
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDrag({ kind: 'hint', id: stop.color.id });
+              }}
+              onPointerMove={(e) => handleHintPointerMove(e, stop, next)}
+              onPointerUp={() => setDrag(null)}
+              onDoubleClick={() => onHintChange(stop.color.id, undefined)}
+              onKeyDown={(e) => {
+                const delta = e.key === 'ArrowLeft' ? -0.05 : e.key === 'ArrowRight' ? 0.05 : 0;
+                if (!delta) return;
+                e.preventDefault();
+                onHintChange(stop.color.id, Math.round(clamp(hint + delta, MIN_HINT, MAX_HINT) * 100) / 100);
+              }}
+            />
+          );
+        })}
+
+        <div
+          ref={barRef}
+          className="h-10 rounded-xl soft-shadow cursor-copy"
+          style={{ background }}
+          onClick={(e) => onStopAdd(Math.round(getPosition(e.clientX)))}
+          title="Click to add a stop"
+        />
+
+        {/* Two-position stops: the span the color holds, with a handle at its end */}
+        {stops.map(stop => {
+          if (stop.end === undefined) return null;
+          return (
+            <div key={`end-${stop.color.id}`}>
+              <div
+                className="absolute bottom-3 h-1 rounded-full pointer-events-none"
+                style={{
+                  left: `${stop.position}%`,
+                  width: `${stop.end - stop.position}%`,
+                  backgroundColor: stop.color.hex
+                }}
+              />
+              <div
+                role="slider"
+                tabIndex={0}
+                aria-label={`End of stop ${stop.color.hex}`}
+                aria-valuemin={stop.position}
+                aria-valuemax={100}
+                aria-valuenow={stop.end}
+                className="absolute bottom-1 w-3 h-5 -translate-x-1/2 rounded-sm border-2 border-white soft-shadow cursor-ew-resize touch-none"
+                style={{ left: `${stop.end}%`, backgroundColor: stop.color.hex }}
+                title={`${stop.color.hex} until ${stop.end}%`}
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDrag({ kind: 'end', id: stop.color.id });
+                }}
+                onPointerMove={(e) => handleEndPointerMove(e, stop)}
+                onPointerUp={() => setDrag(null)}
+                onPointerCancel={() => setDrag(null)}
+                onDoubleClick={() => onStopEndChange(stop.color.id, undefined)}
+                onKeyDown={(e) => {
+                  const delta = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+                  if (!delta || stop.end === undefined) return;
+                  e.preventDefault();
+                  onStopEndChange(stop.color.id, clamp(stop.end + delta, stop.position, 100));
+                }}
+              />
+            </div>
+          );
+        })}
+
+        {/* Stop handles */}
+        {stops.map(stop => {
+          const isRemoving = drag?.kind === 'stop' && drag.id === stop.color.id && drag.removing;
+          return (
+            <div
+              key={stop.color.id}
+              role="slider"
+              tabIndex={0}
+              aria-label={`Stop ${stop.color.hex}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={stop.position}
+              className={`absolute bottom-0 w-5 h-7 -translate-x-1/2 rounded-md border-2 border-white soft-shadow cursor-grab touch-none transition-opacity ${
+                isRemoving ? 'opacity-30' : 'opacity-100'
+              }`}
+              style={{ left: `${stop.position}%`, backgroundColor: stop.color.hex }}
+              title={`${stop.color.hex} · ${stop.position}%${stop.end === undefined ? '' : ` – ${stop.end}%`}`}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                e.currentTarget.focus();
+                setDrag({ kind: 'stop', id: stop.color.id, removing: false });
+              }}
+              onPointerMove={(e) => handleStopPointerMove(e, stop.color.id)}
+              onPointerUp={() => handleStopPointerUp(stop.color.id)}
+              onPointerCancel={() => setDrag(null)}
+              onDoubleClick={() => toggleHold(stop)}
+              onKeyDown={(e) => handleStopKeyDown(e, stop)}
+            />
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click the bar to add a stop, drag a handle away to remove it, and drag the diamonds to move midpoints.
+        Double-click a handle to make a hard stop that holds its color.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { ArrowDown, ArrowUp, Layers, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { BLEND_MODES, type BlendMode, type GradientLayer, generateLayerGradient, MAX_LAYERS } from '@/lib/gradient';
+
+interface GradientLayersProps {
+  layers: GradientLayer[];
+  colors: ColorInfo[];
+  activeLayerId: string;
+  onActiveLayerChange: (id: string) => void;
+  onLayersChange: (layers: GradientLayer[]) => void;
+}
+
+/**
+ * Stack of gradient layers, top layer first. The selected layer is the one
+ * edited by the swatches and the Basic/Advanced controls.
+ */
+export function GradientLayers({
+  layers,
+  colors,
+  activeLayerId,
+  onActiveLayerChange,
+  onLayersChange
+}: GradientLayersProps) {
+  const activeIndex = layers.findIndex(layer => layer.id === activeLayerId);
+  const activeLayer = layers[activeIndex];
+
+  const updateActiveLayer = (patch: Partial<GradientLayer>) => {
+    onLayersChange(layers.map(layer => (layer.id === activeLayerId ? { ...layer, ...patch } : layer)));
+  };
+
+  // New layers start as a copy of the selected one, placed above it
+  const addLayer = () => {
+    if (!activeLayer) return;
+    const layer: GradientLayer = {
+      ...activeLayer,
+      id: crypto.randomUUID(),
+      selectedColors: new Set(activeLayer.selectedColors),
+      stops: { ...activeLayer.stops }
+    };
+    const next = [...layers];
+    next.splice(activeIndex, 0, layer);
+    onLayersChange(next);
+    onActiveLayerChange(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+    if (layers.length <= 1) return;
+    const index = layers.findIndex(layer => layer.id === id);
+    const next = layers.filter(layer => layer.id !== id);
+    onLayersChange(next);
+    if (id === activeLayerId) {
+      onActiveLayerChange(next[Math.min(index, next.length - 1)].id);
+    }
+  };
+
+  const moveLayer = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onLayersChange(next);
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="flex items-center gap-2 text-base font-medium text-[#0C0D7A]">
+          <Layers className="w-4 h-4" />
+          Layers
+        </Label>
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full"
+          onClick={addLayer}
+          disabled={layers.length >= MAX_LAYERS}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add layer
+        </Button>
+      </div>
+
+      <div className="space-y-2" role="listbox" aria-label="Gradient layers">
+        {layers.map((layer, index) => {
+          const isActive = layer.id === activeLayerId;
+          return (
+            <div
+              key={layer.id}
+              role="option"
+              aria-selected={isActive}
+              tabIndex={0}
+              onClick={() => onActiveLayerChange(layer.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onActiveLayerChange(layer.id);
+                }
+              }}
+              className={`flex items-center gap-3 rounded-2xl border p-2 cursor-pointer transition-colors ${
+                isActive ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent/30'
+              }`}
+            >
+              <div
+                className="w-10 h-10 shrink-0 rounded-xl soft-shadow bg-muted"
+                style={{ background: generateLayerGradient(layer, colors) || undefined }}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-[#0C0D7A]">
+                  Layer {index + 1}
+                  {index === 0 && layers.length > 1 ? ' (top)' : ''}
+                </p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {layer.options.type} · {layer.opacity}% · {layer.blendMode}
+                </p>
+              </div>
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-xl"
+                  aria-label={`Move layer ${index + 1} up`}
+                  disabled={index === 0}
+                  onClick={() => moveLayer(index, -1)}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-xl"
+                  aria-label={`Move layer ${index + 1} down`}
+                  disabled={index === layers.length - 1}
+                  onClick={() => moveLayer(index, 1)}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-xl"
+                  aria-label={`Remove layer ${index + 1}`}
+                  disabled={layers.length <= 1}
+                  onClick={() => removeLayer(layer.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {activeLayer && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <Label className="text-sm font-medium text-[#0C0D7A]">Opacity</Label>
+            <div className="flex items-center gap-3">
+              <Slider
+                value={[activeLayer.opacity]}
+                onValueChange={(value) => updateActiveLayer({ opacity: value[0] })}
+                min={0}
+                max={100}
+                step={1}
+                className="flex-1"
+                aria-label="Layer opacity"
+              />
+              <div className="w-12 text-sm text-muted-foreground font-medium">{activeLayer.opacity}%</div>
+            </div>
+          </div>
+          <div className="space-y-3">
+            <Label className="text-sm font-medium text-[#0C0D7A]">Blend Mode</Label>
+            <Select
+              value={activeLayer.blendMode}
+              onValueChange={(value) => updateActiveLayer({ blendMode: value as BlendMode })}
+            >
+              <SelectTrigger className="rounded-xl capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BLEND_MODES.map(mode => (
+                  <SelectItem key={mode} value={mode} className="capitalize">
+                    {mode.replace('-', ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { Download, FileImage, Loader2 } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { downloadFile } from '@/lib/download';
+import type { GradientLayer } from '@/lib/gradient';
+import {
+  MAX_RASTER_SIZE,
+  type RasterFormat,
+  renderGradientImage,
+  SIZE_PRESETS,
+  supportsRasterFormat
+} from '@/lib/raster';
+import { DEFAULT_SVG_OPTIONS, generateSVG } from '@/lib/svg';
+
+interface ImageExportProps {
+  colors: ColorInfo[];
+  layers: GradientLayer[];
+}
+
+type ExportFormat = 'svg' | RasterFormat;
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  svg: 'SVG',
+  png: 'PNG',
+  webp: 'WebP'
+};
+
+/** Select value for sizes that match no preset */
+const CUSTOM_SIZE = 'custom';
+
+interface SizeInputProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Pixel size field. Sizes in range apply while typing; anything else, including
+ * an empty field, is clamped to 1-MAX_RASTER_SIZE on blur or Enter.
+ */
+function SizeInput({ id, label, value, onChange }: SizeInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  // Re-sync when the size changes elsewhere (presets)
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const updateDraft = (next: string) => {
+    setDraft(next);
+    const size = Number(next);
+    if (next.trim() !== '' && Number.isInteger(size) && size >= 1 && size <= MAX_RASTER_SIZE) onChange(size);
+  };
+
+  const commitDraft = () => {
+    const size = Number(draft);
+    const next =
+      draft.trim() !== '' && Number.isFinite(size) ? Math.min(MAX_RASTER_SIZE, Math.max(1, Math.round(size))) : value;
+    onChange(next);
+    setDraft(String(next));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium text-[#0C0D7A]">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        max={MAX_RASTER_SIZE}
+        value={draft}
+        onChange={(e) => updateDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={(e) => e.key === 'Enter' && commitDraft()}
+        className="rounded-xl"
+      />
+    </div>
+  );
+}
+
+/**
+ * Export the gradient as an SVG or a raster image at a chosen size
+ */
+export function ImageExport({ colors, layers }: ImageExportProps) {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [width, setWidth] = useState(DEFAULT_SVG_OPTIONS.width);
+  const [height, setHeight] = useState(DEFAULT_SVG_OPTIONS.height);
+  const [dither, setDither] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const svg = useMemo(() => generateSVG(layers, colors, { width, height }), [layers, colors, width, height]);
+  const previewUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, [svg]);
+  const availableFormats = useMemo(
+    () => (Object.keys(FORMAT_LABELS) as ExportFormat[]).filter(f => f === 'svg' || supportsRasterFormat(f)),
+    []
+  );
+  const preset = SIZE_PRESETS.find(p => p.width === width && p.height === height);
+
+  const handlePresetChange = (value: string) => {
+    const next = SIZE_PRESETS.find(p => `${p.width}x${p.height}` === value);
+    if (!next) return;
+    setWidth(next.width);
+    setHeight(next.height);
+  };
+
+  const handleDownload = async () => {
+    setError(null);
+    if (format === 'svg') {
+      downloadFile(svg, 'gradient.svg', 'image/svg+xml');
+      return;
+    }
+
+    setIsRendering(true);
+    // Let the button show its busy state before the render blocks the thread
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      const blob = await renderGradientImage(layers, colors, format, { width, height, dither });
+      downloadFile(blob, `gradient-${width}x${height}.${format}`);
+    } catch (err) {
+      console.error('Error rendering gradient image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to render the image');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
+      <CardContent className="p-2 lg:p-8 space-y-6">
+        <div className="flex flex-col lg:flex-row items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-2xl">
+              <FileImage className="w-5 h-5 text-primary" />
+            </div>
+            <h2 className="text-xl font-semibold text-[#0C0D7A]">Export Image</h2>
+          </div>
+          <Button className="rounded-full" onClick={handleDownload} disabled={isRendering}>
+            {isRendering ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {isRendering ? 'Rendering...' : `Download ${FORMAT_LABELS[format]}`}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-[#0C0D7A]">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableFormats.map(f => (
+                  <SelectItem key={f} value={f}>
+                    {FORMAT_LABELS[f]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-[#0C0D7A]">Size</Label>
+            <Select value={preset ? `${preset.width}x${preset.height}` : CUSTOM_SIZE} onValueChange={handlePresetChange}>
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIZE_PRESETS.map(p => (
+                  <SelectItem key={`${p.width}x${p.height}`} value={`${p.width}x${p.height}`}>
+                    {p.label} · {p.width}×{p.height}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_SIZE} disabled>
+                  Custom
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <SizeInput id="export-width" label="Width (px)" value={width} onChange={setWidth} />
+          <SizeInput id="export-height" label="Height (px)" value={height} onChange={setHeight} />
+        </div>
+
+        {format !== 'svg' && (
+          <div className="flex items-center gap-3">
+            <Switch id="export-dither" checked={dither} onCheckedChange={setDither} />
+            <Label htmlFor="export-dither" className="text-sm text-[#0C0D7A]">
+              Dither to prevent banding
+            </Label>
+          </div>
+        )}
+
+        <img
+          src={previewUrl}
+          alt="Exported gradient preview"
+          className="w-full rounded-2xl soft-shadow bg-muted"
+          style={{ aspectRatio: `${width} / ${height}` }}
+        />
+        <p className={`text-xs ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {error ??
+            (format === 'svg'
+              ? 'Linear and radial layers become SVG gradients; conic layers are drawn as fine wedges'
+              : 'Rendered pixel by pixel with the same geometry and color mixing as the CSS')}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
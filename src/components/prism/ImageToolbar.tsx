@@ -0,0 +1,136 @@
+import { Lasso, Pipette, Square, SquareMinus, SquarePlus, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SAMPLE_SIZES, type SampleSize } from '@/lib/eyedropper';
+import type { Region, RegionMode } from '@/lib/regions';
+import type { ImageTool } from './ImageWorkspace';
+
+interface ImageToolbarProps {
+  tool: ImageTool | null;
+  onToolChange: (tool: ImageTool | null) => void;
+  regionMode: RegionMode;
+  onRegionModeChange: (mode: RegionMode) => void;
+  regions: Region[];
+  onRegionsChange: (regions: Region[]) => void;
+  sampleSize: SampleSize;
+  onSampleSizeChange: (size: SampleSize) => void;
+}
+
+/**
+ * Tool picker for the uploaded image: region drawing and the eyedropper
+ */
+export function ImageToolbar({
+  tool,
+  onToolChange,
+  regionMode,
+  onRegionModeChange,
+  regions,
+  onRegionsChange,
+  sampleSize,
+  onSampleSizeChange
+}: ImageToolbarProps) {
+  const includeCount = regions.filter(region => region.mode === 'include').length;
+  const excludeCount = regions.length - includeCount;
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+  const getHint = () => {
+    if (tool === 'eyedropper') {
+      return 'Click the image to add the color under the cursor to the palette';
+    }
+    if (regions.length === 0) {
+      return 'Draw regions on the image to extract colors from part of it';
+    }
+    const included = includeCount > 0 ? plural(includeCount, 'include region') : 'the whole image';
+    const excluded = excludeCount > 0 ? ` minus ${plural(excludeCount, 'exclude region')}` : '';
+    return `Sampling ${included}${excluded}`;
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={tool ?? ''}
+          onValueChange={(value) => onToolChange(value ? (value as ImageTool) : null)}
+        >
+          <ToggleGroupItem value="rect" aria-label="Draw rectangle region" className="gap-1 px-3">
+            <Square className="w-4 h-4" />
+            Rectangle
+          </ToggleGroupItem>
+          <ToggleGroupItem value="lasso" aria-label="Draw lasso region" className="gap-1 px-3">
+            <Lasso className="w-4 h-4" />
+            Lasso
+          </ToggleGroupItem>
+          <ToggleGroupItem value="eyedropper" aria-label="Pick a color from the image" className="gap-1 px-3">
+            <Pipette className="w-4 h-4" />
+            Eyedropper
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {tool === 'eyedropper' ? (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={String(sampleSize)}
+            onValueChange={(value) => value && onSampleSizeChange(Number(value) as SampleSize)}
+          >
+            {SAMPLE_SIZES.map(size => (
+              <ToggleGroupItem
+                key={size}
+                value={String(size)}
+                aria-label={`Average ${size} by ${size} pixels`}
+                className="px-3"
+              >
+                {size}×{size}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        ) : (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={regionMode}
+            onValueChange={(value) => value && onRegionModeChange(value as RegionMode)}
+          >
+            <ToggleGroupItem value="include" aria-label="Include region" className="gap-1 px-3">
+              <SquarePlus className="w-4 h-4" />
+              Include
+            </ToggleGroupItem>
+            <ToggleGroupItem value="exclude" aria-label="Exclude region" className="gap-1 px-3">
+              <SquareMinus className="w-4 h-4" />
+              Exclude
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-xl"
+            aria-label="Undo last region"
+            disabled={regions.length === 0}
+            onClick={() => onRegionsChange(regions.slice(0, -1))}
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-xl"
+            aria-label="Clear regions"
+            disabled={regions.length === 0}
+            onClick={() => onRegionsChange([])}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">{getHint()}</p>
+    </div>
+  );
+}
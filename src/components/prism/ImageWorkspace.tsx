@@ -0,0 +1,318 @@
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { type ClusterMap, type RGB, rgbToHex } from '@/lib/colorExtractor';
+import { averagePixels, getSampleBounds, type SampleSize } from '@/lib/eyedropper';
+import type { Point, Region, RegionMode } from '@/lib/regions';
+
+export type ImageTool = 'rect' | 'lasso' | 'eyedropper';
+
+interface ImageWorkspaceProps {
+  src: string;
+  tool: ImageTool | null;
+  regionMode: RegionMode;
+  regions: Region[];
+  onRegionsChange: (regions: Region[]) => void;
+  sampleSize: SampleSize;
+  onPickColor: (rgb: RGB) => void;
+  /** Dim every pixel that does not belong to this palette color */
+  highlight: { clusterMap: ClusterMap; colorId: string } | null;
+}
+
+interface EyedropperSample {
+  point: Point;
+  pixelX: number;
+  pixelY: number;
+  rgb: RGB;
+}
+
+/** Rectangles smaller than this (normalized) are treated as stray clicks */
+const MIN_RECT_SIZE = 0.01;
+
+/** Opacity (0-255) of the dimming applied outside the highlighted cluster */
+const MASK_ALPHA = 170;
+
+/** Image pixels shown across the loupe, and their on-screen size */
+const LOUPE_PIXELS = 11;
+const LOUPE_SCALE = 10;
+
+/**
+ * Convert a pointer event to normalized (0-1) coordinates within an element
+ */
+function toNormalizedPoint(e: React.PointerEvent, element: Element): Point {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+    y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+  };
+}
+
+/**
+ * Render a region as an SVG shape in the normalized 0-1 viewBox
+ */
+function RegionShape({ region, isDraft }: { region: Region; isDraft?: boolean }) {
+  const isExclude = region.mode === 'exclude';
+  const shapeProps = {
+    className: isExclude ? 'fill-destructive/20 stroke-destructive' : 'fill-primary/20 stroke-primary',
+    strokeWidth: 2,
+    strokeDasharray: isExclude || isDraft ? '6 4' : undefined,
+    vectorEffect: 'non-scaling-stroke' as const
+  };
+
+  if (region.shape === 'rect') {
+    return <rect x={region.x} y={region.y} width={region.width} height={region.height} {...shapeProps} />;
+  }
+  return <polygon points={region.points.map(p => `${p.x},${p.y}`).join(' ')} {...shapeProps} />;
+}
+
+/**
+ * Uploaded image with an overlay for drawing include/exclude regions,
+ * an eyedropper with a magnifier loupe, and a mask showing where a
+ * palette color lives in the image
+ */
+export function ImageWorkspace({
+  src,
+  tool,
+  regionMode,
+  regions,
+  onRegionsChange,
+  sampleSize,
+  onPickColor,
+  highlight
+}: ImageWorkspaceProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<{ src: string; ctx: CanvasRenderingContext2D } | null>(null);
+  const [draft, setDraft] = useState<Region | null>(null);
+  const [sample, setSample] = useState<EyedropperSample | null>(null);
+  const startRef = useRef<Point | null>(null);
+
+  /**
+   * Full-resolution copy of the image for exact pixel reads, created on first use
+   */
+  const getSourceContext = () => {
+    const img = imageRef.current;
+    if (!img || !img.complete || img.naturalWidth === 0) return null;
+    if (sourceRef.current?.src === src) return sourceRef.current.ctx;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(img, 0, 0);
+    sourceRef.current = { src, ctx };
+    return ctx;
+  };
+
+  const updateSample = (e: React.PointerEvent<SVGSVGElement>) => {
+    const ctx = getSourceContext();
+    if (!ctx || !overlayRef.current) return;
+
+    const point = toNormalizedPoint(e, overlayRef.current);
+    const { width, height } = ctx.canvas;
+    const pixelX = Math.min(width - 1, Math.floor(point.x * width));
+    const pixelY = Math.min(height - 1, Math.floor(point.y * height));
+    const bounds = getSampleBounds(pixelX, pixelY, sampleSize, width, height);
+    const { data } = ctx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+
+    setSample({ point, pixelX, pixelY, rgb: averagePixels(data) });
+  };
+
+  const highlightIndex = highlight ? highlight.clusterMap.colorIds.indexOf(highlight.colorId) : -1;
+
+  // Paint the cluster mask: pixels of the highlighted color stay clear, the rest are dimmed
+  useEffect(() => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!highlight || highlightIndex < 0 || !ctx) return;
+
+    const { width, height, data } = highlight.clusterMap;
+    ctx.canvas.width = width;
+    ctx.canvas.height = height;
+    const mask = ctx.createImageData(width, height);
+    for (let i = 0; i < data.length; i++) {
+      mask.data[i * 4 + 3] = data[i] === highlightIndex ? 0 : MASK_ALPHA;
+    }
+    ctx.putImageData(mask, 0, 0);
+  }, [highlight, highlightIndex]);
+
+  // Redraw the magnified loupe around the hovered pixel
+  useEffect(() => {
+    const loupe = loupeRef.current?.getContext('2d');
+    const source = sourceRef.current?.ctx;
+    if (!sample || !loupe || !source) return;
+
+    const size = LOUPE_PIXELS * LOUPE_SCALE;
+    const half = Math.floor(LOUPE_PIXELS / 2);
+    loupe.imageSmoothingEnabled = false;
+    loupe.fillStyle = '#ffffff';
+    loupe.fillRect(0, 0, size, size);
+    loupe.drawImage(
+      source.canvas,
+      sample.pixelX - half,
+      sample.pixelY - half,
+      LOUPE_PIXELS,
+      LOUPE_PIXELS,
+      0,
+      0,
+      size,
+      size
+    );
+
+    // Pixel grid
+    loupe.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+    loupe.lineWidth = 1;
+    for (let i = 1; i < LOUPE_PIXELS; i++) {
+      loupe.beginPath();
+      loupe.moveTo(i * LOUPE_SCALE + 0.5, 0);
+      loupe.lineTo(i * LOUPE_SCALE + 0.5, size);
+      loupe.moveTo(0, i * LOUPE_SCALE + 0.5);
+      loupe.lineTo(size, i * LOUPE_SCALE + 0.5);
+      loupe.stroke();
+    }
+
+    // Sampled area
+    const offset = (half - Math.floor(sampleSize / 2)) * LOUPE_SCALE;
+    loupe.lineWidth = 2;
+    loupe.strokeStyle = '#ffffff';
+    loupe.strokeRect(offset + 1, offset + 1, sampleSize * LOUPE_SCALE - 2, sampleSize * LOUPE_SCALE - 2);
+    loupe.strokeStyle = '#000000';
+    loupe.strokeRect(offset - 1, offset - 1, sampleSize * LOUPE_SCALE + 2, sampleSize * LOUPE_SCALE + 2);
+  }, [sample, sampleSize]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool || !overlayRef.current) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === 'eyedropper') {
+      updateSample(e);
+      return;
+    }
+
+    const point = toNormalizedPoint(e, overlayRef.current);
+    startRef.current = point;
+    setDraft(
+      tool === 'rect'
+        ? { id: crypto.randomUUID(), mode: regionMode, shape: 'rect', x: point.x, y: point.y, width: 0, height: 0 }
+        : { id: crypto.randomUUID(), mode: regionMode, shape: 'lasso', points: [point] }
+    );
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === 'eyedropper') {
+      updateSample(e);
+      return;
+    }
+
+    const start = startRef.current;
+    if (!draft || !start || !overlayRef.current) return;
+
+    const point = toNormalizedPoint(e, overlayRef.current);
+    if (draft.shape === 'rect') {
+      setDraft({
+        ...draft,
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y)
+      });
+    } else {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (tool === 'eyedropper') {
+      if (sample) onPickColor(sample.rgb);
+      return;
+    }
+
+    if (draft) {
+      const isValid =
+        draft.shape === 'rect'
+          ? draft.width >= MIN_RECT_SIZE && draft.height >= MIN_RECT_SIZE
+          : draft.points.length >= 3;
+      if (isValid) {
+        onRegionsChange([...regions, draft]);
+      }
+    }
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex justify-center">
+      <div className="relative inline-block">
+        <img
+          ref={imageRef}
+          src={src}
+          alt="Uploaded"
+          className="block max-h-64 w-auto max-w-full rounded-2xl select-none"
+          draggable={false}
+        />
+        {highlightIndex >= 0 && (
+          <canvas
+            ref={maskRef}
+            className="absolute inset-0 w-full h-full rounded-2xl pointer-events-none transition-opacity duration-200"
+            aria-hidden="true"
+          />
+        )}
+        <svg
+          ref={overlayRef}
+          className={`absolute inset-0 w-full h-full rounded-2xl ${tool ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            startRef.current = null;
+            setDraft(null);
+            setSample(null);
+          }}
+          onPointerLeave={() => setSample(null)}
+          onClick={(e) => e.stopPropagation()}
+          aria-label="Image tools overlay"
+          role="img"
+        >
+          {regions.map(region => (
+            <RegionShape key={region.id} region={region} />
+          ))}
+          {draft && <RegionShape region={draft} isDraft />}
+        </svg>
+
+        {tool === 'eyedropper' && sample && (
+          <div
+            className="absolute pointer-events-none z-10 rounded-2xl bg-white p-2 soft-shadow-lg"
+            style={{
+              left: `${sample.point.x * 100}%`,
+              top: `${sample.point.y * 100}%`,
+              transform: `translate(${sample.point.x > 0.6 ? 'calc(-100% - 16px)' : '16px'}, ${
+                sample.point.y > 0.6 ? 'calc(-100% - 16px)' : '16px'
+              })`
+            }}
+          >
+            <canvas
+              ref={loupeRef}
+              width={LOUPE_PIXELS * LOUPE_SCALE}
+              height={LOUPE_PIXELS * LOUPE_SCALE}
+              className="block rounded-xl"
+            />
+            <div className="mt-2 flex items-center gap-2">
+              <div
+                className="w-5 h-5 rounded-md border border-border"
+                style={{ backgroundColor: rgbToHex(sample.rgb.r, sample.rgb.g, sample.rgb.b) }}
+              />
+              <span className="text-xs font-mono text-[#0C0D7A]">
+                {rgbToHex(sample.rgb.r, sample.rgb.g, sample.rgb.b)}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
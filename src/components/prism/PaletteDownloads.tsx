@@ -0,0 +1,43 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { downloadFile } from '@/lib/download';
+import { PALETTE_FORMATS, type PaletteFormat, serializePalette } from '@/lib/paletteFormats';
+
+interface PaletteDownloadsProps {
+  colors: ColorInfo[];
+  /** Palette name stored in the files and used as the file name */
+  name?: string;
+}
+
+/**
+ * One-click palette downloads for Adobe apps, GIMP, Procreate and Sketch
+ */
+export function PaletteDownloads({ colors, name = 'PrismExtract' }: PaletteDownloadsProps) {
+  const handleDownload = (format: PaletteFormat) => {
+    const { extension, mimeType } = PALETTE_FORMATS[format];
+    downloadFile(serializePalette(format, colors, name), `${name}.${extension}`, mimeType);
+  };
+
+  return (
+    <div className="mt-12 space-y-3">
+      <Label className="text-sm font-medium text-[#0C0D7A]">Download Palette</Label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PALETTE_FORMATS) as PaletteFormat[]).map(format => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            className="rounded-full"
+            onClick={() => handleDownload(format)}
+            disabled={colors.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {PALETTE_FORMATS[format].label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { ClipboardPaste } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { parseCssColors, toPaletteColors } from '@/lib/paletteFormats';
+
+interface PaletteImportProps {
+  onImport: (colors: ColorInfo[]) => void;
+}
+
+/**
+ * Paste CSS (or any text with HEX, rgb() or hsl() colors) to use as the palette
+ */
+export function PaletteImport({ onImport }: PaletteImportProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    const colors = toPaletteColors(parseCssColors(text));
+    if (colors.length === 0) {
+      setError('No HEX, rgb() or hsl() colors found');
+      return;
+    }
+    setError(null);
+    setText('');
+    onImport(colors);
+  };
+
+  return (
+    <div className="mt-6 space-y-3">
+      <Label htmlFor="palette-css" className="text-sm font-medium text-[#0C0D7A]">
+        Or paste CSS colors
+      </Label>
+      <Textarea
+        id="palette-css"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(null);
+        }}
+        placeholder="background: linear-gradient(#ff6b6b, rgb(78 205 196), hsl(45 100% 60%));"
+        className="font-mono rounded-xl min-h-24"
+        spellCheck={false}
+        aria-invalid={error !== null}
+      />
+      <div className="flex items-center justify-between gap-4">
+        <p className={`text-xs ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {error ?? 'Palette files (.ase, .gpl, .json, .css) can also be dropped above'}
+        </p>
+        <Button variant="outline" size="sm" className="rounded-full" onClick={handleImport} disabled={!text.trim()}>
+          <ClipboardPaste className="w-4 h-4 mr-2" />
+          Import colors
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { Check, Copy, Download, Share2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import QRCodeDataUrl from '@/components/ui/qrcodedataurl';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { DEFAULT_QR_COLORS, getPaletteQrColors, MIN_QR_CONTRAST } from '@/lib/contrast';
+import { downloadFile } from '@/lib/download';
+import { createPermalink, type PermalinkState } from '@/lib/permalink';
+
+interface ShareDialogProps {
+  state: PermalinkState;
+}
+
+type QrStyle = 'classic' | 'palette';
+
+/** Rendered size of the QR code image, which is also the downloaded PNG */
+const QR_SIZE = 512;
+
+/**
+ * Longest link drawn as a QR code. A code can hold far more, but past this it
+ * gets too dense for phone cameras to read off a screen.
+ */
+const MAX_QR_LENGTH = 500;
+
+/**
+ * Share dialog: the permalink to copy, and as a QR code (black and white or
+ * in palette colors that pass a contrast check) to open on a phone
+ */
+export function ShareDialog({ state }: ShareDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [style, setStyle] = useState<QrStyle>('classic');
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  // Only build the link while the dialog is open; the state changes on every drag
+  const link = useMemo(() => (open ? createPermalink(state) : ''), [open, state]);
+  const paletteColors = useMemo(() => getPaletteQrColors(state.colors), [state.colors]);
+  const qrColors = style === 'palette' && paletteColors ? paletteColors : DEFAULT_QR_COLORS;
+  const fitsQrCode = link.length <= MAX_QR_LENGTH;
+
+  // Drop the previous code so it can't be downloaded before the new one is drawn
+  const handleStyleChange = (value: string) => {
+    if (!value) return;
+    setStyle(value as QrStyle);
+    setQrDataUrl('');
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = async () => {
+    const blob = await (await fetch(qrDataUrl)).blob();
+    downloadFile(blob, 'prism-extract-qr.png', 'image/png');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="rounded-full">
+          <Share2 className="w-4 h-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#0C0D7A]">Share Gradient</DialogTitle>
+          <DialogDescription>
+            The link restores the palette and every layer, without the source image. Scan the code to check the
+            gradient on a phone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="share-link" className="text-sm font-medium text-[#0C0D7A]">
+            Link
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-link"
+              value={link}
+              readOnly
+              onFocus={(e) => e.target.select()}
+              className="font-mono text-xs rounded-xl"
+            />
+            <Button variant="outline" className="rounded-full shrink-0" onClick={handleCopy}>
+              {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+        </div>
+
+        {fitsQrCode ? (
+          <div className="space-y-4">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={style}
+              onValueChange={handleStyleChange}
+              className="w-full"
+            >
+              <ToggleGroupItem value="classic" className="flex-1">
+                Black &amp; white
+              </ToggleGroupItem>
+              <ToggleGroupItem value="palette" className="flex-1" disabled={!paletteColors}>
+                Palette colors
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            <QRCodeDataUrl
+              text={link}
+              width={QR_SIZE}
+              color={qrColors.dark}
+              backgroundColor={qrColors.light}
+              onGenerated={setQrDataUrl}
+              className="flex justify-center [&_img]:w-56 [&_img]:h-56 [&_img]:rounded-2xl"
+            />
+
+            <p className="text-xs text-muted-foreground text-center">
+              {paletteColors
+                ? `Contrast ${qrColors.contrast.toFixed(1)}:1 (at least ${MIN_QR_CONTRAST}:1 scans reliably)`
+                : `No palette colors reach ${MIN_QR_CONTRAST}:1 contrast, so the code stays black and white`}
+            </p>
+
+            <Button className="w-full rounded-full" onClick={handleDownload} disabled={!qrDataUrl}>
+              <Download className="w-4 h-4 mr-2" />
+              Download QR code (PNG)
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This gradient's link is too long for a QR code. Remove a layer or some colors, or share the link itself.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
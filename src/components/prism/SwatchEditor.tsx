@@ -0,0 +1,251 @@
+import { Pencil, RotateCcw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { type ColorInfo, hexToRgb, isColorModified, type RGB, rgbToHex } from '@/lib/colorExtractor';
+import { fromPolar, hslToRgb, oklabToRgb, rgbToHsl, rgbToOklab, toPolar, type Vec3 } from '@/lib/colorSpace';
+
+interface SwatchEditorProps {
+  color: ColorInfo;
+  onChange: (rgb: RGB) => void;
+  onRevert: () => void;
+  className?: string;
+}
+
+type EditorMode = 'hsl' | 'oklch';
+
+interface ChannelSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+/** Highest OKLCH chroma reachable inside sRGB (pure blue is ~0.31) */
+const MAX_CHROMA = 0.37;
+
+const toHex = ({ r, g, b }: RGB) => rgbToHex(r, g, b);
+
+function ChannelSlider({ label, value, min, max, step, format, onChange }: ChannelSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-[#0C0D7A]">{label}</Label>
+        <span className="text-xs font-mono text-muted-foreground">{format(value)}</span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(v) => onChange(v[0])}
+        min={min}
+        max={max}
+        step={step}
+        aria-label={label}
+      />
+    </div>
+  );
+}
+
+/**
+ * Popover editor for a palette swatch: HSL or OKLCH sliders plus
+ * HEX and RGB input, with a way back to the extracted color
+ */
+export function SwatchEditor({ color, onChange, onRevert, className }: SwatchEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('hsl');
+  const [hsl, setHsl] = useState(() => rgbToHsl(color.rgb));
+  const [oklch, setOklch] = useState<Vec3>(() => toPolar(rgbToOklab(color.rgb)));
+  const [hexDraft, setHexDraft] = useState(color.hex);
+  const isModified = isColorModified(color);
+
+  // Re-sync when the color changes elsewhere (HEX/RGB input, revert). Channels that
+  // already produce this color are kept, so hue doesn't jump at low saturation.
+  useEffect(() => {
+    setHsl(prev => (toHex(hslToRgb(prev)) === color.hex ? prev : rgbToHsl(color.rgb)));
+    setOklch(prev => (toHex(oklabToRgb(fromPolar(prev))) === color.hex ? prev : toPolar(rgbToOklab(color.rgb))));
+    setHexDraft(color.hex);
+  }, [color]);
+
+  const updateHsl = (patch: Partial<typeof hsl>) => {
+    const next = { ...hsl, ...patch };
+    setHsl(next);
+    onChange(hslToRgb(next));
+  };
+
+  const updateOklch = (index: 0 | 1 | 2, value: number) => {
+    const next: Vec3 = [...oklch];
+    next[index] = value;
+    setOklch(next);
+    onChange(oklabToRgb(fromPolar(next)));
+  };
+
+  // Full #rrggbb values apply while typing; shorthand applies on blur so it
+  // doesn't expand under the cursor
+  const updateHex = (value: string) => {
+    setHexDraft(value);
+    const rgb = hexToRgb(value);
+    if (rgb && value.replace('#', '').trim().length === 6) onChange(rgb);
+  };
+
+  const commitHex = () => {
+    const rgb = hexToRgb(hexDraft);
+    if (rgb) onChange(rgb);
+    setHexDraft(rgb ? toHex(rgb) : color.hex);
+  };
+
+  const updateChannel = (channel: keyof RGB, value: number) => {
+    if (Number.isNaN(value)) return;
+    onChange({ ...color.rgb, [channel]: Math.round(Math.min(255, Math.max(0, value))) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="secondary"
+          size="icon"
+          className={`h-7 w-7 rounded-full text-[#0C0D7A] ${className ?? ''}`}
+          aria-label={`Edit ${color.hex}`}
+        >
+          <Pencil className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 rounded-2xl space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl soft-shadow" style={{ backgroundColor: color.hex }} />
+          <div className="flex-1 space-y-1">
+            <p className="font-mono text-sm text-[#0C0D7A]">{color.hex}</p>
+            {isModified && (
+              <Badge variant="secondary" className="text-xs rounded-full">
+                Edited
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as EditorMode)}
+          className="w-full"
+        >
+          <ToggleGroupItem value="hsl" className="flex-1">
+            HSL
+          </ToggleGroupItem>
+          <ToggleGroupItem value="oklch" className="flex-1">
+            OKLCH
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {mode === 'hsl' ? (
+          <div className="space-y-3">
+            <ChannelSlider
+              label="Hue"
+              value={hsl.h}
+              min={0}
+              max={360}
+              step={1}
+              format={(v) => `${Math.round(v)}°`}
+              onChange={(h) => updateHsl({ h })}
+            />
+            <ChannelSlider
+              label="Saturation"
+              value={hsl.s}
+              min={0}
+              max={100}
+              step={1}
+              format={(v) => `${Math.round(v)}%`}
+              onChange={(s) => updateHsl({ s })}
+            />
+            <ChannelSlider
+              label="Lightness"
+              value={hsl.l}
+              min={0}
+              max={100}
+              step={1}
+              format={(v) => `${Math.round(v)}%`}
+              onChange={(l) => updateHsl({ l })}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <ChannelSlider
+              label="Lightness"
+              value={oklch[0]}
+              min={0}
+              max={1}
+              step={0.005}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(v) => updateOklch(0, v)}
+            />
+            <ChannelSlider
+              label="Chroma"
+              value={Math.min(oklch[1], MAX_CHROMA)}
+              min={0}
+              max={MAX_CHROMA}
+              step={0.002}
+              format={(v) => v.toFixed(3)}
+              onChange={(v) => updateOklch(1, v)}
+            />
+            <ChannelSlider
+              label="Hue"
+              value={oklch[2]}
+              min={0}
+              max={360}
+              step={1}
+              format={(v) => `${Math.round(v)}°`}
+              onChange={(v) => updateOklch(2, v)}
+            />
+            <p className="text-xs text-muted-foreground">Colors outside sRGB are clipped to the nearest displayable one</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="col-span-3 space-y-1">
+            <Label htmlFor={`hex-${color.id}`} className="text-xs text-[#0C0D7A]">
+              HEX
+            </Label>
+            <Input
+              id={`hex-${color.id}`}
+              value={hexDraft}
+              onChange={(e) => updateHex(e.target.value)}
+              onBlur={commitHex}
+              onKeyDown={(e) => e.key === 'Enter' && commitHex()}
+              className="font-mono rounded-xl"
+              spellCheck={false}
+            />
+          </div>
+          {(['r', 'g', 'b'] as const).map(channel => (
+            <div key={channel} className="space-y-1">
+              <Label htmlFor={`${channel}-${color.id}`} className="text-xs uppercase text-[#0C0D7A]">
+                {channel}
+              </Label>
+              <Input
+                id={`${channel}-${color.id}`}
+                type="number"
+                min={0}
+                max={255}
+                value={color.rgb[channel]}
+                onChange={(e) => updateChannel(channel, e.target.valueAsNumber)}
+                className="px-2 text-center rounded-xl"
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" size="sm" className="w-full rounded-full" onClick={onRevert} disabled={!isModified}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Revert to extracted
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,146 @@
+import { Check, Copy, Download, Wind } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { ColorInfo } from '@/lib/colorExtractor';
+import { downloadFile } from '@/lib/download';
+import type { GradientLayer } from '@/lib/gradient';
+import {
+  DEFAULT_TAILWIND_OPTIONS,
+  generateShadeScale,
+  generateTailwindConfig,
+  generateTailwindTheme,
+  TAILWIND_SHADES,
+  type TailwindExportOptions,
+  type TailwindVersion
+} from '@/lib/tailwind';
+
+interface TailwindExportProps {
+  colors: ColorInfo[];
+  layers: GradientLayer[];
+}
+
+const OUTPUT_FILES: Record<TailwindVersion, { filename: string; type: string }> = {
+  v3: { filename: 'tailwind.config.js', type: 'text/javascript' },
+  v4: { filename: 'theme.css', type: 'text/css' }
+};
+
+/**
+ * Tailwind theme export: palette colors with 50-950 scales and the gradient
+ * as a background image, as a v3 config or v4 `@theme` CSS
+ */
+export function TailwindExport({ colors, layers }: TailwindExportProps) {
+  const [version, setVersion] = useState<TailwindVersion>('v4');
+  const [options, setOptions] = useState<TailwindExportOptions>(DEFAULT_TAILWIND_OPTIONS);
+  const [copied, setCopied] = useState(false);
+
+  const code = useMemo(
+    () =>
+      version === 'v3'
+        ? generateTailwindConfig(colors, layers, options)
+        : generateTailwindTheme(colors, layers, options),
+    [colors, layers, options, version]
+  );
+  const scales = useMemo(() => colors.map(color => generateShadeScale(color.rgb)), [colors]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const { filename, type } = OUTPUT_FILES[version];
+    downloadFile(code, filename, type);
+  };
+
+  return (
+    <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
+      <CardContent className="p-2 lg:p-8 space-y-6">
+        <div className="flex flex-col lg:flex-row items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-2xl">
+              <Wind className="w-5 h-5 text-primary" />
+            </div>
+            <h2 className="text-xl font-semibold text-[#0C0D7A]">Tailwind Theme</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="rounded-full" onClick={handleCopy}>
+              {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button className="rounded-full" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download {OUTPUT_FILES[version].filename}
+            </Button>
+          </div>
+        </div>
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={version}
+          onValueChange={(value) => value && setVersion(value as TailwindVersion)}
+          className="w-full"
+        >
+          <ToggleGroupItem value="v4" className="flex-1">
+            v4 @theme
+          </ToggleGroupItem>
+          <ToggleGroupItem value="v3" className="flex-1">
+            v3 config
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="grid grid-cols-2 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="tailwind-prefix" className="text-sm font-medium text-[#0C0D7A]">
+              Color prefix
+            </Label>
+            <Input
+              id="tailwind-prefix"
+              value={options.prefix}
+              onChange={(e) => setOptions(prev => ({ ...prev, prefix: e.target.value }))}
+              placeholder={DEFAULT_TAILWIND_OPTIONS.prefix}
+              className="rounded-xl"
+            />
+          </div>
+          <div className="flex items-center gap-3 pb-2">
+            <Switch
+              id="tailwind-scales"
+              checked={options.scales}
+              onCheckedChange={(scales) => setOptions(prev => ({ ...prev, scales }))}
+            />
+            <Label htmlFor="tailwind-scales" className="text-sm text-[#0C0D7A]">
+              50–950 scales
+            </Label>
+          </div>
+        </div>
+
+        {options.scales && (
+          <div className="space-y-1">
+            {scales.map((scale, index) => (
+              <div key={colors[index].id} className="flex rounded-lg overflow-hidden">
+                {TAILWIND_SHADES.map(shade => (
+                  <div
+                    key={shade}
+                    className="flex-1 h-6"
+                    style={{ backgroundColor: scale[shade] }}
+                    title={`${shade}: ${scale[shade]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-muted/50 rounded-2xl p-6 font-mono text-sm overflow-auto max-h-96">
+          <code className="text-[#0C0D7A] whitespace-pre">{code}</code>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
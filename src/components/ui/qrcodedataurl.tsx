@@ -44,6 +44,11 @@ interface QRCodeDataUrlProps {
    * Custom CSS class name
    */
   className?: string;
+
+  /**
+   * Called with the PNG data URL each time the QR code is generated
+   */
+  onGenerated?: (dataUrl: string) => void;
 }
 
 /**
@@ -56,6 +61,7 @@ const QRCodeDataUrl: React.FC<QRCodeDataUrlProps> = ({
   color = '#000000',
   backgroundColor = '#ffffff',
   className = '',
+  onGenerated,
 }) => {
   const [dataUrl, setDataUrl] = useState<string>('');
 
@@ -70,13 +76,14 @@ const QRCodeDataUrl: React.FC<QRCodeDataUrlProps> = ({
           },
         });
         setDataUrl(url);
+        onGenerated?.(url);
       } catch (err) {
         console.error('Failed to generate QR code:', err);
       }
     };
 
     generateQR();
-  }, [text, width, color, backgroundColor]);
+  }, [text, width, color, backgroundColor, onGenerated]);
 
   return (
     <div className={`qr-code-container ${className}`}>
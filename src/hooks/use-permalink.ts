@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useDebounce } from '@/hooks/use-debounce';
+import { createPermalinkQuery, type PermalinkState } from '@/lib/permalink';
+
+/**
+ * Keep the page URL in sync with the editor state, so it survives a refresh
+ * and can be shared. Pass null to clear the permalink (e.g. after a reset).
+ */
+export function usePermalink(state: PermalinkState | null) {
+  const [, setSearchParams] = useSearchParams();
+  // Dragging a stop or slider changes the state on every frame
+  const debouncedState = useDebounce(state, 400);
+
+  useEffect(() => {
+    const current = new URLSearchParams(window.location.search);
+    const query = createPermalinkQuery(debouncedState, current);
+    if (query !== current.toString()) {
+      setSearchParams(new URLSearchParams(query), { replace: true });
+    }
+  }, [debouncedState, setSearchParams]);
+}
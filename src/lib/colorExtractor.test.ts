@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createColorInfo, type PixelData, quantizeImageData, sortByDominance } from './colorExtractor';
+
+/**
+ * A one-row image of 100 red, 50 green and 10 blue pixels
+ */
+function createFixture(): PixelData {
+  const runs = [
+    { rgb: [255, 0, 0], count: 100 },
+    { rgb: [0, 255, 0], count: 50 },
+    { rgb: [0, 0, 255], count: 10 }
+  ];
+  const pixels = runs.flatMap(({ rgb, count }) => Array.from({ length: count }, () => [...rgb, 255]));
+  return { data: new Uint8ClampedArray(pixels.flat()), width: pixels.length, height: 1 };
+}
+
+const expected = [
+  { hex: '#ff0000', count: 100 },
+  { hex: '#00ff00', count: 50 },
+  { hex: '#0000ff', count: 10 }
+];
+
+describe('quantizeImageData', () => {
+  it.each(['srgb', 'oklab', 'cielab'] as const)('finds each distinct color with median cut in %s', colorSpace => {
+    const { colors } = quantizeImageData(createFixture(), 3, { colorSpace });
+    expect(sortByDominance(colors)).toMatchObject(expected);
+  });
+
+  it('returns no more buckets than distinct colors, none of them empty', () => {
+    const { colors } = quantizeImageData(createFixture(), 5, {});
+    expect(sortByDominance(colors)).toMatchObject(expected);
+  });
+
+  it('keeps a locked color and fills the other slots from the image', () => {
+    const locked = createColorInfo({ r: 255, g: 0, b: 0 });
+    const { colors } = quantizeImageData(createFixture(), 3, { locked: [locked] });
+    expect(colors[0].id).toBe(locked.id);
+    expect(sortByDominance(colors)).toMatchObject(expected);
+  });
+
+  it('counts every sampled pixel once', () => {
+    const { colors } = quantizeImageData(createFixture(), 2, { algorithm: 'k-means', seed: 1 });
+    expect(colors.reduce((sum, color) => sum + color.count, 0)).toBe(160);
+  });
+});
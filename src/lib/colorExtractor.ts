@@ -1,8 +1,13 @@
 /**
  * Color extraction utilities for image processing
- * Uses median cut algorithm for color quantization
+ * Uses median cut (default) or k-means++ for color quantization,
+ * in sRGB or a perceptual space (OKLab/CIELAB)
  */
 
+import { type ColorSpace, colorSpaces, rgbToHsl } from './colorSpace';
+import { type QuantizerName, quantizers } from './quantizers';
+import { buildRegionMask, type Region } from './regions';
+
 export interface RGB {
   r: number;
   g: number;
@@ -13,7 +18,12 @@ export interface ColorInfo {
   id: string;
   rgb: RGB;
   hex: string;
+  /** Number of sampled pixels represented by this color */
   count: number;
+  /** Share of the sampled pixels represented by this color (0-100) */
+  percentage: number;
+  /** The color as first extracted or picked, set once it has been edited */
+  original?: RGB;
 }
 
 /**
@@ -28,26 +38,265 @@ export function rgbToHex(r: number, g: number, b: number): string {
 }
 
 /**
- * Calculate color distance (Euclidean distance in RGB space)
+ * Parse a #rgb or #rrggbb HEX color (the # is optional)
+ * @returns null when the string is not a valid HEX color
  */
-function colorDistance(c1: RGB, c2: RGB): number {
-  return Math.sqrt(
-    Math.pow(c1.r - c2.r, 2) +
-    Math.pow(c1.g - c2.g, 2) +
-    Math.pow(c1.b - c2.b, 2)
-  );
+export function hexToRgb(hex: string): RGB | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  const value = Number.parseInt(digits, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+/**
+ * Calculate color distance in the given space:
+ * Euclidean for sRGB, ΔEOK for OKLab, CIEDE2000 for CIELAB
+ */
+export function colorDistance(c1: RGB, c2: RGB, space: ColorSpace = 'srgb'): number {
+  const { fromRgb, distance } = colorSpaces[space];
+  return distance(fromRgb(c1), fromRgb(c2));
+}
+
+/**
+ * Settings that control how an image is quantized
+ */
+export interface ExtractionOptions {
+  /** Quantization algorithm (default: 'median-cut') */
+  algorithm?: QuantizerName;
+  /** Seed for randomized algorithms such as k-means++; omit for random output */
+  seed?: number;
+  /** Space pixels are quantized in (default: 'srgb') */
+  colorSpace?: ColorSpace;
+  /** Pixels with alpha at or below this value are skipped (0-255, default: 125) */
+  alphaThreshold?: number;
+  /** Pixels above this value on every channel count as near-white (0-255, default: 240) */
+  whiteThreshold?: number;
+  /** Pixels below this value on every channel count as near-black (0-255, default: 15) */
+  blackThreshold?: number;
+  /** Keep near-white and near-black pixels instead of skipping them (default: false) */
+  includeNeutrals?: boolean;
+  /** Minimum HSL saturation a pixel needs to be sampled (0-100, default: 0) */
+  minSaturation?: number;
+  /** Only sample pixels inside include regions and outside exclude regions */
+  regions?: Region[];
+  /** Palette colors to keep as they are; only the remaining slots are extracted */
+  locked?: ColorInfo[];
+}
+
+/**
+ * Defaults applied to every option the caller leaves out
+ */
+export const DEFAULT_EXTRACTION_OPTIONS = {
+  algorithm: 'median-cut',
+  colorSpace: 'srgb',
+  alphaThreshold: 125,
+  whiteThreshold: 240,
+  blackThreshold: 15,
+  includeNeutrals: false,
+  minSaturation: 0
+} satisfies ExtractionOptions;
+
+/**
+ * Create a palette entry with a fresh id
+ * @param count - Pixel population; 0 for colors not taken from quantization
+ * @param percentage - Share of the sampled image (0-100)
+ */
+export function createColorInfo(rgb: RGB, count: number = 0, percentage: number = 0): ColorInfo {
+  return {
+    id: crypto.randomUUID(),
+    rgb,
+    hex: rgbToHex(rgb.r, rgb.g, rgb.b),
+    count,
+    percentage
+  };
+}
+
+/**
+ * Change a palette entry's color in place, remembering what it was first
+ */
+export function updateColorInfo(color: ColorInfo, rgb: RGB): ColorInfo {
+  return {
+    ...color,
+    rgb,
+    hex: rgbToHex(rgb.r, rgb.g, rgb.b),
+    original: color.original ?? color.rgb
+  };
 }
 
 /**
- * Extract dominant colors from an image using median cut algorithm
+ * Restore a palette entry to its extracted color
+ */
+export function revertColorInfo(color: ColorInfo): ColorInfo {
+  if (!color.original) return color;
+  const { original, ...rest } = color;
+  return { ...rest, rgb: original, hex: rgbToHex(original.r, original.g, original.b) };
+}
+
+/**
+ * Whether a palette entry differs from its extracted color
+ */
+export function isColorModified(color: ColorInfo): boolean {
+  const { original, rgb } = color;
+  return !!original && (original.r !== rgb.r || original.g !== rgb.g || original.b !== rgb.b);
+}
+
+/**
+ * Which palette color each sampled pixel belongs to
+ */
+export interface ClusterMap {
+  width: number;
+  height: number;
+  /** Palette index per pixel, or UNASSIGNED for pixels that were not sampled */
+  data: Uint8Array;
+  /** Palette color id for each index in data, so the map survives re-sorting */
+  colorIds: string[];
+}
+
+/** ClusterMap value for pixels skipped by filters or regions */
+export const UNASSIGNED = 255;
+
+/**
+ * A palette together with its per-pixel cluster assignment
+ */
+export interface ExtractionResult {
+  colors: ColorInfo[];
+  clusterMap: ClusterMap;
+}
+
+/**
+ * Raw RGBA pixel buffer, structurally compatible with ImageData
+ */
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Longest edge (in pixels) an image is downscaled to before sampling
+ */
+export const SAMPLE_SIZE = 200;
+
+/**
+ * Calculate the downscaled dimensions used for sampling an image
+ */
+export function getSampleSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(SAMPLE_SIZE / width, SAMPLE_SIZE / height);
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale))
+  };
+}
+
+/**
+ * Quantize a decoded pixel buffer into a palette and assign every sampled
+ * pixel to its nearest palette color.
+ * Pure and DOM-free so it can run both on the main thread and in a worker.
+ * @param imageData - The downscaled pixels to process
+ * @param colorCount - Number of colors to extract, locked colors included
+ * @param options - Algorithm, color space, pixel filter and region settings
+ */
+export function quantizeImageData(
+  imageData: PixelData,
+  colorCount: number,
+  options: ExtractionOptions = {}
+): ExtractionResult {
+  const settings = { ...DEFAULT_EXTRACTION_OPTIONS, ...options };
+
+  const mask = buildRegionMask(settings.regions ?? [], imageData.width, imageData.height);
+
+  // Extract pixels, remembering where each came from
+  const pixels: RGB[] = [];
+  const pixelIndices: number[] = [];
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    if (mask && !mask[i / 4]) continue;
+
+    const r = imageData.data[i];
+    const g = imageData.data[i + 1];
+    const b = imageData.data[i + 2];
+    const a = imageData.data[i + 3];
+
+    if (a <= settings.alphaThreshold) continue;
+
+    if (!settings.includeNeutrals) {
+      const isNearWhite =
+        r > settings.whiteThreshold && g > settings.whiteThreshold && b > settings.whiteThreshold;
+      const isNearBlack =
+        r < settings.blackThreshold && g < settings.blackThreshold && b < settings.blackThreshold;
+      if (isNearWhite || isNearBlack) continue;
+    }
+
+    if (settings.minSaturation > 0 && rgbToHsl({ r, g, b }).s < settings.minSaturation) continue;
+
+    pixels.push({ r, g, b });
+    pixelIndices.push(i / 4);
+  }
+
+  // Quantize in the working space (on a copy, median cut sorts in place),
+  // then convert centroids back to sRGB. Locked colors fill the first slots.
+  const space = colorSpaces[settings.colorSpace];
+  const quantize = quantizers[settings.algorithm];
+  const points = pixels.map(space.fromRgb);
+  const locked = settings.locked ?? [];
+  const buckets = quantize([...points], Math.max(0, colorCount - locked.length), {
+    seed: settings.seed,
+    distance: space.distance,
+    fixed: locked.map(color => space.fromRgb(color.rgb))
+  });
+
+  // Assign each sampled pixel to its nearest centroid. Populations come from this
+  // pass rather than the quantizer's buckets (median cut boxes are not Voronoi cells), so
+  // the shares add up to 100% for every algorithm.
+  const data = new Uint8Array(imageData.width * imageData.height).fill(UNASSIGNED);
+  const counts = new Array<number>(buckets.length).fill(0);
+  points.forEach((point, i) => {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    buckets.forEach(({ color }, k) => {
+      const d = space.distance(point, color);
+      if (d < nearestDistance) {
+        nearestDistance = d;
+        nearest = k;
+      }
+    });
+    data[pixelIndices[i]] = nearest;
+    counts[nearest]++;
+  });
+
+  // Convert to ColorInfo format; locked colors keep their id and only get a new population
+  const colors = buckets.map(({ color }, k) => {
+    const count = counts[k];
+    const percentage = pixels.length > 0 ? (count / pixels.length) * 100 : 0;
+    return k < locked.length ? { ...locked[k], count, percentage } : createColorInfo(space.toRgb(color), count, percentage);
+  });
+
+  return {
+    colors,
+    clusterMap: {
+      width: imageData.width,
+      height: imageData.height,
+      data,
+      colorIds: colors.map(color => color.id)
+    }
+  };
+}
+
+/**
+ * Extract dominant colors from an image.
+ * Runs entirely on the calling thread; see `extractColorsInBackground`
+ * for the worker-backed variant used by the UI.
  * @param imageFile - The image file to process
  * @param colorCount - Number of colors to extract (default: 6)
- * @returns Promise resolving to an array of exactly colorCount colors
+ * @param options - Algorithm, color space, pixel filter and region settings
+ * @returns Promise resolving to at most colorCount colors and their cluster map
  */
 export async function extractColors(
   imageFile: File,
-  colorCount: number = 6
-): Promise<ColorInfo[]> {
+  colorCount: number = 6,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const reader = new FileReader();
@@ -63,46 +312,15 @@ export async function extractColors(
             return;
           }
 
-          // Resize image for faster processing (max 200px)
-          const maxSize = 200;
-          const scale = Math.min(maxSize / img.width, maxSize / img.height);
-          canvas.width = img.width * scale;
-          canvas.height = img.height * scale;
+          // Resize image for faster processing
+          const size = getSampleSize(img.width, img.height);
+          canvas.width = size.width;
+          canvas.height = size.height;
 
           ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          
-          // Extract pixels
-          const pixels: RGB[] = [];
-          for (let i = 0; i < imageData.data.length; i += 4) {
-            const r = imageData.data[i];
-            const g = imageData.data[i + 1];
-            const b = imageData.data[i + 2];
-            const a = imageData.data[i + 3];
-            
-            // Skip transparent and very light/dark pixels
-            if (a > 125 && !(r > 240 && g > 240 && b > 240) && !(r < 15 && g < 15 && b < 15)) {
-              pixels.push({ r, g, b });
-            }
-          }
 
-          // Apply median cut algorithm
-          // Calculate depth: 2^depth = colorCount, so depth = log2(colorCount)
-          const depth = Math.ceil(Math.log2(colorCount));
-          const colors = medianCut(pixels, depth);
-          
-          // Ensure we have exactly the requested number of colors
-          const finalColors = colors.slice(0, colorCount);
-          
-          // Convert to ColorInfo format
-          const colorInfos: ColorInfo[] = finalColors.map((color, index) => ({
-            id: crypto.randomUUID(),
-            rgb: color,
-            hex: rgbToHex(color.r, color.g, color.b),
-            count: index
-          }));
-
-          resolve(colorInfos);
+          resolve(quantizeImageData(imageData, colorCount, options));
         } catch (error) {
           reject(error);
         }
@@ -118,86 +336,31 @@ export async function extractColors(
 }
 
 /**
- * Median cut algorithm for color quantization
+ * Sort colors from most to least dominant
  */
-function medianCut(pixels: RGB[], depth: number): RGB[] {
-  if (depth === 0 || pixels.length === 0) {
-    return [averageColor(pixels)];
-  }
-
-  // Find the channel with the greatest range
-  const ranges = {
-    r: { min: 255, max: 0 },
-    g: { min: 255, max: 0 },
-    b: { min: 255, max: 0 }
-  };
-
-  pixels.forEach(pixel => {
-    ranges.r.min = Math.min(ranges.r.min, pixel.r);
-    ranges.r.max = Math.max(ranges.r.max, pixel.r);
-    ranges.g.min = Math.min(ranges.g.min, pixel.g);
-    ranges.g.max = Math.max(ranges.g.max, pixel.g);
-    ranges.b.min = Math.min(ranges.b.min, pixel.b);
-    ranges.b.max = Math.max(ranges.b.max, pixel.b);
-  });
-
-  const rRange = ranges.r.max - ranges.r.min;
-  const gRange = ranges.g.max - ranges.g.min;
-  const bRange = ranges.b.max - ranges.b.min;
-
-  const maxRange = Math.max(rRange, gRange, bRange);
-  let channel: 'r' | 'g' | 'b' = 'r';
-  
-  if (maxRange === gRange) channel = 'g';
-  else if (maxRange === bRange) channel = 'b';
-
-  // Sort by the channel with greatest range
-  pixels.sort((a, b) => a[channel] - b[channel]);
-
-  // Split at median
-  const mid = Math.floor(pixels.length / 2);
-  
-  return [
-    ...medianCut(pixels.slice(0, mid), depth - 1),
-    ...medianCut(pixels.slice(mid), depth - 1)
-  ];
+export function sortByDominance(colors: ColorInfo[]): ColorInfo[] {
+  return [...colors].sort((a, b) => b.count - a.count);
 }
 
 /**
- * Calculate average color from pixels
+ * Calculate gradient stops weighted by pixel population.
+ * Each color is placed at the center of a band whose width matches its share,
+ * so dominant colors occupy proportionally more of the gradient.
+ * @returns Stop positions (0-100), one per color, in the given order
  */
-function averageColor(pixels: RGB[]): RGB {
-  if (pixels.length === 0) {
-    return { r: 0, g: 0, b: 0 };
+export function getWeightedStops(colors: ColorInfo[]): number[] {
+  const total = colors.reduce((sum, color) => sum + color.count, 0);
+  if (total === 0) {
+    return colors.map((_, index) =>
+      colors.length > 1 ? Math.round((index / (colors.length - 1)) * 100) : 0
+    );
   }
 
-  const sum = pixels.reduce(
-    (acc, pixel) => ({
-      r: acc.r + pixel.r,
-      g: acc.g + pixel.g,
-      b: acc.b + pixel.b
-    }),
-    { r: 0, g: 0, b: 0 }
-  );
-
-  return {
-    r: Math.round(sum.r / pixels.length),
-    g: Math.round(sum.g / pixels.length),
-    b: Math.round(sum.b / pixels.length)
-  };
-}
-
-/**
- * Generate CSS linear gradient from colors
- */
-export function generateGradient(
-  colors: ColorInfo[],
-  angle: number,
-  stops: number[]
-): string {
-  const colorStops = colors
-    .map((color, index) => `${color.hex} ${stops[index]}%`)
-    .join(', ');
-  
-  return `linear-gradient(${angle}deg, ${colorStops})`;
+  let covered = 0;
+  return colors.map(color => {
+    const share = (color.count / total) * 100;
+    const center = covered + share / 2;
+    covered += share;
+    return Math.round(center);
+  });
 }
@@ -0,0 +1,325 @@
+/**
+ * Color space conversions and perceptual color difference
+ * Supports sRGB, linear sRGB, HSL, OKLab/OKLCH and CIELAB (D65) with ΔEOK and CIEDE2000
+ */
+
+import type { RGB } from './colorExtractor';
+
+/**
+ * A color expressed as three channels of some color space
+ */
+export type Vec3 = [number, number, number];
+
+export type ColorSpace = 'srgb' | 'oklab' | 'cielab';
+
+/**
+ * sRGB channel (0-255) to linear light (0-1), precomputed for every byte value
+ */
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+/**
+ * Convert an sRGB channel (0-255) to linear light (0-1)
+ */
+function toLinear(channel: number): number {
+  if (Number.isInteger(channel) && channel >= 0 && channel <= 255) {
+    return SRGB_TO_LINEAR[channel];
+  }
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear light (0-1) to a clamped sRGB channel (0-255), not rounded
+ */
+function linearToSrgb(channel: number): number {
+  const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+  return Math.min(1, Math.max(0, c)) * 255;
+}
+
+/**
+ * Convert linear light (0-1) to a clamped, rounded sRGB channel (0-255)
+ */
+function fromLinear(channel: number): number {
+  return Math.round(linearToSrgb(channel));
+}
+
+/**
+ * Convert sRGB to OKLab (L: 0-1, a/b: roughly -0.4 to 0.4)
+ */
+export function rgbToOklab({ r, g, b }: RGB): Vec3 {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  ];
+}
+
+/**
+ * Convert OKLab to linear-light sRGB, without clamping
+ */
+export function oklabToLinearRgb([L, a, b]: Vec3): Vec3 {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ];
+}
+
+/**
+ * Convert OKLab back to sRGB, clamping out-of-gamut values
+ */
+export function oklabToRgb(lab: Vec3): RGB {
+  return linearRgbToRgb(oklabToLinearRgb(lab));
+}
+
+/**
+ * Convert sRGB to HSL (h: 0-360, s/l: 0-100)
+ */
+export function rgbToHsl({ r, g, b }: RGB): { h: number; s: number; l: number } {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l: l * 100 };
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) h = ((gn - bn) / delta) % 6;
+  else if (max === gn) h = (bn - rn) / delta + 2;
+  else h = (rn - gn) / delta + 4;
+
+  h *= 60;
+  if (h < 0) h += 360;
+
+  return { h, s: s * 100, l: l * 100 };
+}
+
+/**
+ * Convert HSL (h: 0-360, s/l: 0-100) back to sRGB
+ */
+export function hslToRgb(hsl: { h: number; s: number; l: number }): RGB {
+  const [r, g, b] = hslToSrgb(hsl);
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+}
+
+/**
+ * Convert HSL to sRGB channels (0-255) without rounding
+ */
+export function hslToSrgb({ h, s, l }: { h: number; s: number; l: number }): Vec3 {
+  const sn = Math.min(100, Math.max(0, s)) / 100;
+  const ln = Math.min(100, Math.max(0, l)) / 100;
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * ln - 1)) * sn;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = ln - chroma / 2;
+
+  let rgb: Vec3;
+  if (hue < 60) rgb = [chroma, x, 0];
+  else if (hue < 120) rgb = [x, chroma, 0];
+  else if (hue < 180) rgb = [0, chroma, x];
+  else if (hue < 240) rgb = [0, x, chroma];
+  else if (hue < 300) rgb = [x, 0, chroma];
+  else rgb = [chroma, 0, x];
+
+  return [(rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255];
+}
+
+/**
+ * Convert sRGB to linear-light sRGB (0-1 per channel)
+ */
+export function rgbToLinearRgb({ r, g, b }: RGB): Vec3 {
+  return [toLinear(r), toLinear(g), toLinear(b)];
+}
+
+/**
+ * Convert linear-light sRGB back to sRGB, clamping out-of-gamut values
+ */
+export function linearRgbToRgb([r, g, b]: Vec3): RGB {
+  return { r: fromLinear(r), g: fromLinear(g), b: fromLinear(b) };
+}
+
+/**
+ * Convert linear-light sRGB to clamped sRGB channels (0-255) without rounding
+ */
+export function linearRgbToSrgb([r, g, b]: Vec3): Vec3 {
+  return [linearToSrgb(r), linearToSrgb(g), linearToSrgb(b)];
+}
+
+/**
+ * Convert a Lab-like color to its polar form [L, C, h] (h in degrees)
+ */
+export function toPolar([L, a, b]: Vec3): Vec3 {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return [L, Math.hypot(a, b), hue < 0 ? hue + 360 : hue];
+}
+
+/**
+ * Convert a polar [L, C, h] color back to its rectangular Lab-like form
+ */
+export function fromPolar([L, C, h]: Vec3): Vec3 {
+  const rad = (h * Math.PI) / 180;
+  return [L, C * Math.cos(rad), C * Math.sin(rad)];
+}
+
+/** D65 reference white */
+const WHITE = { x: 0.95047, y: 1, z: 1.08883 };
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+/**
+ * Convert sRGB to CIELAB (D65; L: 0-100)
+ */
+export function rgbToLab({ r, g, b }: RGB): Vec3 {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const f = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+  const fx = f((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE.x);
+  const fy = f((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE.y);
+  const fz = f((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE.z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Convert CIELAB (D65) back to sRGB, clamping out-of-gamut values
+ */
+export function labToRgb([L, a, b]: Vec3): RGB {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const inverse = (t: number) => (t * t * t > EPSILON ? t * t * t : (116 * t - 16) / KAPPA);
+  const x = inverse(fx) * WHITE.x;
+  const y = (L > KAPPA * EPSILON ? Math.pow(fy, 3) : L / KAPPA) * WHITE.y;
+  const z = inverse(fz) * WHITE.z;
+
+  return {
+    r: fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    b: fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)
+  };
+}
+
+/**
+ * ΔEOK: Euclidean distance in OKLab
+ */
+export function deltaEOK(c1: Vec3, c2: Vec3): number {
+  return euclideanDistance(c1, c2);
+}
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors
+ */
+export function deltaE2000([L1, a1, b1]: Vec3, [L2, a2, b2]: Vec3): number {
+  const rad = Math.PI / 180;
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const meanC = (C1 + C2) / 2;
+  const meanC7 = Math.pow(meanC, 7);
+  const G = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+  const a1p = a1 * (1 + G);
+  const a2p = a2 * (1 + G);
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const hue = (a: number, b: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(a1p, b1);
+  const h2p = hue(a2p, b2);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const meanLp = (L1 + L2) / 2;
+  const meanCp = (C1p + C2p) / 2;
+  let meanHp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanHp /= 2;
+    else meanHp = h1p + h2p < 360 ? (meanHp + 360) / 2 : (meanHp - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos((meanHp - 30) * rad) +
+    0.24 * Math.cos(2 * meanHp * rad) +
+    0.32 * Math.cos((3 * meanHp + 6) * rad) -
+    0.2 * Math.cos((4 * meanHp - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+  const meanCp7 = Math.pow(meanCp, 7);
+  const Rc = 2 * Math.sqrt(meanCp7 / (meanCp7 + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(meanLp - 50, 2)) / Math.sqrt(20 + Math.pow(meanLp - 50, 2));
+  const Sc = 1 + 0.045 * meanCp;
+  const Sh = 1 + 0.015 * meanCp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) +
+    Math.pow(dCp / Sc, 2) +
+    Math.pow(dHp / Sh, 2) +
+    Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
+
+/**
+ * Euclidean distance between two points of the same space
+ */
+export function euclideanDistance(c1: Vec3, c2: Vec3): number {
+  return Math.hypot(c1[0] - c2[0], c1[1] - c2[1], c1[2] - c2[2]);
+}
+
+/**
+ * Conversions and the matching distance metric for each supported space
+ */
+export const colorSpaces: Record<
+  ColorSpace,
+  {
+    fromRgb: (rgb: RGB) => Vec3;
+    toRgb: (color: Vec3) => RGB;
+    distance: (c1: Vec3, c2: Vec3) => number;
+  }
+> = {
+  srgb: {
+    fromRgb: ({ r, g, b }) => [r, g, b],
+    toRgb: ([r, g, b]) => ({
+      r: Math.round(Math.min(255, Math.max(0, r))),
+      g: Math.round(Math.min(255, Math.max(0, g))),
+      b: Math.round(Math.min(255, Math.max(0, b)))
+    }),
+    distance: euclideanDistance
+  },
+  oklab: { fromRgb: rgbToOklab, toRgb: oklabToRgb, distance: deltaEOK },
+  cielab: { fromRgb: rgbToLab, toRgb: labToRgb, distance: deltaE2000 }
+};
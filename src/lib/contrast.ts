@@ -0,0 +1,69 @@
+/**
+ * Contrast checks
+ * WCAG 2 relative luminance and contrast ratio, used to keep palette-colored
+ * output (such as QR codes) legible
+ */
+
+import { type ColorInfo, type RGB, rgbToHex } from './colorExtractor';
+import { rgbToLinearRgb } from './colorSpace';
+
+/** Contrast a QR code needs to scan reliably; the same bar as WCAG AA text */
+export const MIN_QR_CONTRAST = 4.5;
+
+const BLACK: RGB = { r: 0, g: 0, b: 0 };
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+
+export interface QrColors {
+  /** Module color */
+  dark: string;
+  /** Background and quiet zone color */
+  light: string;
+  contrast: number;
+}
+
+/**
+ * QR colors for a module and background pair, with the contrast they are drawn at
+ */
+function createQrColors(dark: RGB, light: RGB): QrColors {
+  return {
+    dark: rgbToHex(dark.r, dark.g, dark.b),
+    light: rgbToHex(light.r, light.g, light.b),
+    contrast: getContrastRatio(dark, light)
+  };
+}
+
+export const DEFAULT_QR_COLORS: QrColors = createQrColors(BLACK, WHITE);
+
+/**
+ * WCAG relative luminance (0 for black, 1 for white)
+ */
+export function getRelativeLuminance(rgb: RGB): number {
+  const [r, g, b] = rgbToLinearRgb(rgb);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ */
+export function getContrastRatio(a: RGB, b: RGB): number {
+  const [lighter, darker] = [getRelativeLuminance(a), getRelativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Pick palette colors for a QR code: the darkest color for the modules on the
+ * lightest one, or on white when that pair is too close. Scanners expect dark
+ * modules on a light background, so the pair is never inverted.
+ * @returns null when even white doesn't give the darkest color enough contrast
+ */
+export function getPaletteQrColors(colors: ColorInfo[]): QrColors | null {
+  if (colors.length === 0) return null;
+  const sorted = [...colors].sort((a, b) => getRelativeLuminance(a.rgb) - getRelativeLuminance(b.rgb));
+  const dark = sorted[0].rgb;
+
+  for (const light of [sorted[sorted.length - 1].rgb, WHITE]) {
+    const qrColors = createQrColors(dark, light);
+    if (qrColors.contrast >= MIN_QR_CONTRAST) return qrColors;
+  }
+  return null;
+}
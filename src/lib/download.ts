@@ -0,0 +1,22 @@
+/**
+ * File download helper for exported palettes and gradients
+ */
+
+/**
+ * Save content as a file through a temporary object URL
+ * @param content - Text or binary data, or a ready-made Blob
+ * @param filename - Suggested file name, including the extension
+ * @param type - MIME type used when content is not already a Blob
+ */
+export function downloadFile(content: BlobPart | Blob, filename: string, type = 'text/plain'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
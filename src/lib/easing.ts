@@ -0,0 +1,89 @@
+/**
+ * Easing curves for gradient segments
+ * Eased segments are rendered as extra color stops, which smooths out the
+ * visible bands that plain linear interpolation leaves at each stop
+ */
+
+export type Easing =
+  | { type: 'linear' }
+  | { type: 'cubic-bezier'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'steps'; count: number };
+
+export type EasingPreset = 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/** Control points of the CSS timing function keywords */
+export const EASING_PRESETS: Record<EasingPreset, Easing> = {
+  'ease-in': { type: 'cubic-bezier', x1: 0.42, y1: 0, x2: 1, y2: 1 },
+  'ease-out': { type: 'cubic-bezier', x1: 0, y1: 0, x2: 0.58, y2: 1 },
+  'ease-in-out': { type: 'cubic-bezier', x1: 0.42, y1: 0, x2: 0.58, y2: 1 }
+};
+
+export const LINEAR_EASING: Easing = { type: 'linear' };
+
+/**
+ * Find the preset matching an easing, if any
+ */
+export function getEasingPreset(easing: Easing): EasingPreset | null {
+  if (easing.type !== 'cubic-bezier') return null;
+  const match = Object.entries(EASING_PRESETS).find(([, preset]) =>
+    preset.type === 'cubic-bezier' &&
+    preset.x1 === easing.x1 &&
+    preset.y1 === easing.y1 &&
+    preset.x2 === easing.x2 &&
+    preset.y2 === easing.y2
+  );
+  return match ? (match[0] as EasingPreset) : null;
+}
+
+/**
+ * Evaluate a cubic bezier timing function with endpoints (0,0) and (1,1)
+ * Solves x(t) = x with Newton's method, falling back to bisection
+ */
+function cubicBezier(x1: number, y1: number, x2: number, y2: number, x: number): number {
+  const sample = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t;
+  const slope = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) * (1 - t) + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t * t;
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const error = sample(x1, x2, t) - x;
+    if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+    const d = slope(x1, x2, t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= error / d;
+  }
+
+  let lo = 0;
+  let hi = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    const value = sample(x1, x2, t);
+    if (Math.abs(value - x) < 1e-6) break;
+    if (value < x) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return sample(y1, y2, t);
+}
+
+/**
+ * Map linear progress (0-1) through an easing curve, clamped to 0-1
+ */
+export function evaluateEasing(easing: Easing, progress: number): number {
+  const x = Math.min(1, Math.max(0, progress));
+  let y: number;
+  switch (easing.type) {
+    case 'cubic-bezier':
+      y = cubicBezier(easing.x1, easing.y1, easing.x2, easing.y2, x);
+      break;
+    case 'steps': {
+      // Evenly spaced bands from the first color to the last, both included
+      const count = Math.max(2, Math.round(easing.count));
+      y = Math.min(count - 1, Math.floor(x * count)) / (count - 1);
+      break;
+    }
+    default:
+      y = x;
+  }
+  return Math.min(1, Math.max(0, y));
+}
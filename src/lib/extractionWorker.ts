@@ -0,0 +1,170 @@
+/**
+ * Worker-backed color extraction
+ * Runs decoding and quantization in a Web Worker so the UI stays responsive,
+ * cancels stale jobs, and falls back to the main thread where OffscreenCanvas
+ * or module workers are unavailable
+ */
+
+import { type ExtractionOptions, type ExtractionResult, extractColors } from './colorExtractor';
+
+export interface ExtractionRequest {
+  id: number;
+  file: File;
+  colorCount: number;
+  options: ExtractionOptions;
+}
+
+export type ExtractionResponse =
+  | { id: number; result: ExtractionResult }
+  | { id: number; error: string };
+
+interface PendingJob {
+  request: ExtractionRequest;
+  resolve: (result: ExtractionResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+/**
+ * Create the error used to reject cancelled jobs
+ */
+function createAbortError(): DOMException {
+  return new DOMException('Color extraction was cancelled', 'AbortError');
+}
+
+/**
+ * Check whether an error comes from a cancelled extraction
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Check whether this browser can decode and sample images inside a worker
+ */
+export function supportsWorkerExtraction(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  );
+}
+
+/**
+ * Lazily spawn the shared extraction worker
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/colorExtraction.worker.ts', import.meta.url), {
+    type: 'module'
+  });
+
+  worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+    const job = pendingJobs.get(event.data.id);
+    if (!job) return;
+
+    pendingJobs.delete(event.data.id);
+    if ('error' in event.data) {
+      job.reject(new Error(event.data.error));
+    } else {
+      job.resolve(event.data.result);
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const error = new Error(event.message || 'Color extraction worker crashed');
+    terminateWorker();
+    pendingJobs.forEach(job => job.reject(error));
+    pendingJobs.clear();
+  };
+
+  return worker;
+}
+
+/**
+ * Stop the current worker, discarding whatever it is computing
+ */
+function terminateWorker() {
+  worker?.terminate();
+  worker = null;
+}
+
+/**
+ * Cancel a job. A running quantization cannot be interrupted from the
+ * outside, so the worker is replaced and surviving jobs are re-queued.
+ */
+function cancelJob(id: number) {
+  const job = pendingJobs.get(id);
+  if (!job) return;
+
+  pendingJobs.delete(id);
+  job.reject(createAbortError());
+
+  terminateWorker();
+  pendingJobs.forEach(({ request }) => getWorker().postMessage(request));
+}
+
+/**
+ * Run a single extraction job in the worker
+ */
+function runInWorker(
+  imageFile: File,
+  colorCount: number,
+  options: ExtractionOptions,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  return new Promise((resolve, reject) => {
+    const request: ExtractionRequest = { id: ++nextJobId, file: imageFile, colorCount, options };
+    const onAbort = () => cancelJob(request.id);
+
+    pendingJobs.set(request.id, {
+      request,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    getWorker().postMessage(request);
+  });
+}
+
+/**
+ * Extract dominant colors without blocking the UI thread
+ * @param imageFile - The image file to process
+ * @param colorCount - Number of colors to extract (default: 6)
+ * @param options - Algorithm, color space, pixel filter and region settings
+ * @param signal - Aborting rejects the job with an AbortError and frees the worker
+ * @returns Promise resolving to at most colorCount colors and their cluster map
+ */
+export async function extractColorsInBackground(
+  imageFile: File,
+  colorCount: number = 6,
+  options: ExtractionOptions = {},
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  if (signal?.aborted) throw createAbortError();
+
+  if (supportsWorkerExtraction()) {
+    try {
+      return await runInWorker(imageFile, colorCount, options, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Worker extraction failed, falling back to main thread:', error);
+    }
+  }
+
+  const result = await extractColors(imageFile, colorCount, options);
+  if (signal?.aborted) throw createAbortError();
+  return result;
+}
@@ -0,0 +1,65 @@
+/**
+ * Eyedropper sampling helpers
+ * Pick exact or averaged pixel colors from a decoded image
+ */
+
+import type { RGB } from './colorExtractor';
+
+/** Edge length of the square area averaged per pick */
+export type SampleSize = 1 | 3 | 5;
+
+export const SAMPLE_SIZES: SampleSize[] = [1, 3, 5];
+
+export interface SampleBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Calculate the square sample area centered on a pixel, clipped to the image
+ */
+export function getSampleBounds(
+  x: number,
+  y: number,
+  size: SampleSize,
+  imageWidth: number,
+  imageHeight: number
+): SampleBounds {
+  const radius = Math.floor(size / 2);
+  const left = Math.max(0, x - radius);
+  const top = Math.max(0, y - radius);
+  const right = Math.min(imageWidth, x + radius + 1);
+  const bottom = Math.min(imageHeight, y + radius + 1);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Average an RGBA buffer, weighting each pixel by its alpha
+ */
+export function averagePixels(data: Uint8ClampedArray): RGB {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let weight = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    r += data[i] * alpha;
+    g += data[i + 1] * alpha;
+    b += data[i + 2] * alpha;
+    weight += alpha;
+  }
+
+  if (weight === 0) {
+    return { r: 0, g: 0, b: 0 };
+  }
+
+  return {
+    r: Math.round(r / weight),
+    g: Math.round(g / weight),
+    b: Math.round(b / weight)
+  };
+}
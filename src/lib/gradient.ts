@@ -0,0 +1,588 @@
+/**
+ * CSS gradient generation
+ * Builds linear, radial and conic gradients from palette colors
+ */
+
+import { type ColorInfo, type RGB, rgbToHex } from './colorExtractor';
+import type { Vec3 } from './colorSpace';
+import { type Easing, evaluateEasing } from './easing';
+import {
+  formatInterpolation,
+  type HueInterpolation,
+  type InterpolationSpace,
+  interpolateColor,
+  mixColor
+} from './interpolation';
+
+export type GradientType = 'linear' | 'radial' | 'conic';
+
+export type RadialShape = 'circle' | 'ellipse';
+
+export type RadialSize = 'closest-side' | 'closest-corner' | 'farthest-side' | 'farthest-corner';
+
+/**
+ * Center of a radial or conic gradient, in percent of the box
+ */
+export interface GradientPosition {
+  x: number;
+  y: number;
+}
+
+export interface GradientOptions {
+  /** Gradient function (default: 'linear') */
+  type?: GradientType;
+  /** Radial ending shape (default: 'ellipse') */
+  shape?: RadialShape;
+  /** Radial size keyword (default: 'farthest-corner') */
+  size?: RadialSize;
+  /** Radial/conic center (default: 50% 50%) */
+  position?: GradientPosition;
+  /** Color space colors are mixed in (default: 'srgb') */
+  interpolation?: InterpolationSpace;
+  /** Hue arc for polar interpolation spaces (default: 'shorter') */
+  hueInterpolation?: HueInterpolation;
+  /** Repeat the stops past the last one (default: false) */
+  repeating?: boolean;
+  /** Easing per segment, indexed by the segment's first color (default: linear) */
+  easings?: (Easing | undefined)[];
+  /** Color hint per segment as a fraction (0-1) of the segment, indexed like `easings` */
+  hints?: (number | undefined)[];
+}
+
+/** Options that describe a gradient independently of its colors */
+export type GradientSettings = Required<Omit<GradientOptions, 'easings' | 'hints'>>;
+
+export const DEFAULT_GRADIENT_OPTIONS: GradientSettings = {
+  type: 'linear',
+  shape: 'ellipse',
+  size: 'farthest-corner',
+  position: { x: 50, y: 50 },
+  interpolation: 'srgb',
+  hueInterpolation: 'shorter',
+  repeating: false
+};
+
+/** Colors inserted per segment when approximating an interpolation space in sRGB */
+const FALLBACK_STEPS = 8;
+
+/** Colors inserted per eased segment; enough to hide the linear pieces in between */
+const EASING_STEPS = 12;
+
+/** A stop position (0-100), or a start/end pair for a two-position (hard) stop */
+export type StopPosition = number | [number, number];
+
+export interface ColorStop {
+  color: ColorInfo;
+  /** Position along the gradient (0-100) */
+  position: number;
+  /** End of a two-position stop; the color holds from `position` to here */
+  end?: number;
+  /** Where the transition to the next stop is half way, as a fraction (0-1) of the segment */
+  hint?: number;
+}
+
+function roundPosition(position: number): number {
+  return Math.round(position * 100) / 100;
+}
+
+/**
+ * Where the transition out of a stop begins
+ */
+function getStopEnd(stop: ColorStop): number {
+  return stop.end ?? stop.position;
+}
+
+/**
+ * Map progress through a segment the way a CSS color hint does
+ */
+function applyHint(progress: number, hint: number): number {
+  if (hint <= 0) return 1;
+  if (hint >= 1) return 0;
+  return Math.pow(progress, Math.log(0.5) / Math.log(hint));
+}
+
+/**
+ * Mix two stop colors in the gradient's interpolation space.
+ * Layer opacity is carried as a hex alpha suffix, so it is kept on the mix.
+ */
+function mixStopColors(
+  from: ColorInfo,
+  to: ColorInfo,
+  t: number,
+  { interpolation, hueInterpolation }: GradientSettings
+): ColorInfo {
+  const rgb = interpolateColor(from.rgb, to.rgb, t, interpolation, hueInterpolation);
+  return { ...from, rgb, hex: `${rgbToHex(rgb.r, rgb.g, rgb.b)}${from.hex.slice(7)}` };
+}
+
+/**
+ * Insert computed stops into eased segments.
+ * Curves are sampled into intermediate stops; steps become hard-edged bands.
+ * An eased segment has its shape fully described, so its color hint is dropped.
+ */
+function applyEasings(stops: ColorStop[], easings: (Easing | undefined)[], settings: GradientSettings): ColorStop[] {
+  const result: ColorStop[] = [];
+
+  stops.forEach((stop, index) => {
+    const next = stops[index + 1];
+    const easing = easings[index];
+    const start = getStopEnd(stop);
+    if (!next || !easing || easing.type === 'linear' || next.position <= start) {
+      result.push(stop);
+      return;
+    }
+    result.push({ ...stop, hint: undefined });
+
+    const span = next.position - start;
+    if (easing.type === 'steps') {
+      const count = Math.max(2, Math.round(easing.count));
+      for (let band = 0; band < count; band++) {
+        result.push({
+          color: mixStopColors(stop.color, next.color, band / (count - 1), settings),
+          position: roundPosition(start + (span * band) / count),
+          end: roundPosition(start + (span * (band + 1)) / count)
+        });
+      }
+      return;
+    }
+
+    for (let step = 1; step < EASING_STEPS; step++) {
+      const t = step / EASING_STEPS;
+      result.push({
+        color: mixStopColors(stop.color, next.color, evaluateEasing(easing, t), settings),
+        position: roundPosition(start + span * t)
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Resolve options and pair colors with their positions, easing applied
+ */
+function buildColorStops(
+  colors: ColorInfo[],
+  stops: StopPosition[],
+  options: GradientOptions
+): { settings: GradientSettings; colorStops: ColorStop[] } {
+  const { easings = [], hints = [], ...rest } = options;
+  const settings = { ...DEFAULT_GRADIENT_OPTIONS, ...rest };
+  const colorStops = colors.map((color, index) => {
+    const stop = stops[index];
+    return Array.isArray(stop)
+      ? { color, position: stop[0], end: stop[1], hint: hints[index] }
+      : { color, position: stop, hint: hints[index] };
+  });
+  return { settings, colorStops: applyEasings(colorStops, easings, settings) };
+}
+
+/**
+ * Format color stops as a CSS gradient function
+ */
+function formatGradient(colorStops: ColorStop[], angle: number, settings: GradientSettings): string {
+  const { type, shape, size, position, interpolation, hueInterpolation, repeating } = settings;
+  const stopList = colorStops
+    .map((stop, index) => {
+      const next = colorStops[index + 1];
+      const start = getStopEnd(stop);
+      const positions = stop.end === undefined ? `${stop.position}%` : `${stop.position}% ${stop.end}%`;
+      if (stop.hint === undefined || !next || next.position <= start) return `${stop.color.hex} ${positions}`;
+      return `${stop.color.hex} ${positions}, ${roundPosition(start + (next.position - start) * stop.hint)}%`;
+    })
+    .join(', ');
+  const at = `at ${Math.round(position.x)}% ${Math.round(position.y)}%`;
+  const method = formatInterpolation(interpolation, hueInterpolation);
+  const prelude = (geometry: string) => (method ? `${method} ${geometry}` : geometry);
+  const repeat = repeating ? 'repeating-' : '';
+
+  switch (type) {
+    case 'radial':
+      return `${repeat}radial-gradient(${prelude(`${shape} ${size} ${at}`)}, ${stopList})`;
+    case 'conic':
+      return `${repeat}conic-gradient(${prelude(`from ${angle}deg ${at}`)}, ${stopList})`;
+    default:
+      return `${repeat}linear-gradient(${prelude(`${angle}deg`)}, ${stopList})`;
+  }
+}
+
+/**
+ * Generate a CSS gradient from colors
+ * @param colors - Colors in gradient order
+ * @param angle - Direction of a linear gradient, or start angle of a conic one (degrees)
+ * @param stops - Stop position (0-100) for each color, or a start/end pair for a hard stop
+ * @param options - Gradient type, radial/conic geometry, interpolation space and easing
+ */
+export function generateGradient(
+  colors: ColorInfo[],
+  angle: number,
+  stops: StopPosition[],
+  options: GradientOptions = {}
+): string {
+  const { settings, colorStops } = buildColorStops(colors, stops, options);
+  return formatGradient(colorStops, angle, settings);
+}
+
+/**
+ * Whether a gradient uses syntax that needs an sRGB fallback declaration
+ */
+export function needsFallback(options: GradientOptions): boolean {
+  return (options.interpolation ?? DEFAULT_GRADIENT_OPTIONS.interpolation) !== 'srgb';
+}
+
+/**
+ * Generate an sRGB-only version of a gradient for browsers without
+ * `<color-interpolation-method>` support. Extra stops are mixed in the
+ * requested space, so the fallback keeps its hue path instead of turning gray.
+ */
+export function generateFallbackGradient(
+  colors: ColorInfo[],
+  angle: number,
+  stops: StopPosition[],
+  options: GradientOptions = {}
+): string {
+  const { settings, colorStops } = buildColorStops(colors, stops, options);
+  const srgbSettings = { ...settings, interpolation: 'srgb' as const };
+  if (settings.interpolation === 'srgb') {
+    return formatGradient(colorStops, angle, srgbSettings);
+  }
+
+  return formatGradient(expandStops(colorStops, settings), angle, srgbSettings);
+}
+
+/**
+ * Bake the interpolation space and color hints into extra stops, so plain
+ * sRGB interpolation between the result looks like the original.
+ * Only segments that need it (non-sRGB space or a hint) are expanded.
+ */
+function expandStops(colorStops: ColorStop[], settings: GradientSettings): ColorStop[] {
+  const mixInSpace = settings.interpolation !== 'srgb';
+  const expanded: ColorStop[] = [];
+
+  colorStops.forEach((stop, index) => {
+    expanded.push({ ...stop, hint: undefined });
+
+    const next = colorStops[index + 1];
+    const start = getStopEnd(stop);
+    if (!next || next.position <= start || next.color.hex === stop.color.hex) return;
+    if (!mixInSpace && stop.hint === undefined) return;
+    for (let step = 1; step < FALLBACK_STEPS; step++) {
+      const t = step / FALLBACK_STEPS;
+      const progress = stop.hint === undefined ? t : applyHint(t, stop.hint);
+      expanded.push({
+        color: mixStopColors(stop.color, next.color, progress, settings),
+        position: roundPosition(start + (next.position - start) * t)
+      });
+    }
+  });
+
+  return expanded;
+}
+
+/** CSS `background-blend-mode` values */
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export const BLEND_MODES: BlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity'
+];
+
+/**
+ * One gradient in a stacked background. Layers reference palette colors
+ * by id, so every layer can draw a different subset of the same palette.
+ */
+export interface GradientLayer {
+  id: string;
+  /** Palette colors drawn by this layer */
+  selectedColors: Set<string>;
+  /** Stop position (0-100) for each palette color, by color id */
+  stops: Record<string, number>;
+  /** End position of two-position (hard) stops, by color id */
+  stopEnds: Record<string, number>;
+  angle: number;
+  options: GradientSettings;
+  /** Easing of the segment that starts at each palette color, by color id */
+  easings: Record<string, Easing>;
+  /** Color hint of the segment that starts at each palette color, by color id */
+  hints: Record<string, number>;
+  /** Layer opacity (0-100), baked into the color stops */
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+/** Upper bound keeps the preview and the generated CSS manageable */
+export const MAX_LAYERS = 6;
+
+/**
+ * Spread stop positions evenly from 0% to 100%, keyed by color id
+ */
+export function getEvenStops(colors: ColorInfo[]): Record<string, number> {
+  return Object.fromEntries(
+    colors.map((color, index) => [
+      color.id,
+      colors.length > 1 ? Math.round((index / (colors.length - 1)) * 100) : 0
+    ])
+  );
+}
+
+/**
+ * Lay colors out as adjacent hard-edged bands, each `bandWidth` percent wide.
+ * On a repeating gradient the bands tile into stripes.
+ */
+export function getStripeStops(
+  colors: ColorInfo[],
+  bandWidth: number
+): Pick<GradientLayer, 'stops' | 'stopEnds'> {
+  const stops: Record<string, number> = {};
+  const stopEnds: Record<string, number> = {};
+  colors.forEach((color, index) => {
+    stops[color.id] = roundPosition(index * bandWidth);
+    stopEnds[color.id] = roundPosition((index + 1) * bandWidth);
+  });
+  return { stops, stopEnds };
+}
+
+/**
+ * Create a layer that draws every palette color with evenly spread stops
+ */
+export function createGradientLayer(colors: ColorInfo[], overrides: Partial<GradientLayer> = {}): GradientLayer {
+  return {
+    id: crypto.randomUUID(),
+    selectedColors: new Set(colors.map(c => c.id)),
+    stops: getEvenStops(colors),
+    stopEnds: {},
+    angle: 90,
+    options: DEFAULT_GRADIENT_OPTIONS,
+    easings: {},
+    hints: {},
+    opacity: 100,
+    blendMode: 'normal',
+    ...overrides
+  };
+}
+
+/**
+ * Append an 8-bit alpha channel to a #rrggbb color
+ * @param opacity - 0-100
+ */
+function withAlpha(hex: string, opacity: number): string {
+  if (opacity >= 100) return hex;
+  const alpha = Math.round((Math.max(0, opacity) / 100) * 255);
+  return `${hex}${alpha.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Get a layer's selected colors as stops, ordered by position.
+ * Colors on the same position keep their palette order.
+ */
+export function getLayerColorStops(layer: GradientLayer, colors: ColorInfo[]): ColorStop[] {
+  return colors
+    .filter(color => layer.selectedColors.has(color.id))
+    .map(color => {
+      const position = layer.stops[color.id] ?? 0;
+      const end = layer.stopEnds[color.id];
+      return {
+        color,
+        position,
+        end: end === undefined ? undefined : Math.max(position, end),
+        hint: layer.hints[color.id]
+      };
+    })
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Generate the CSS gradient for a single layer
+ * @param fallback - Emit the sRGB-only fallback instead
+ * @returns An empty string when the layer has no colors selected
+ */
+export function generateLayerGradient(layer: GradientLayer, colors: ColorInfo[], fallback = false): string {
+  const colorStops = getLayerColorStops(layer, colors);
+  if (colorStops.length === 0) return '';
+
+  const generate = fallback ? generateFallbackGradient : generateGradient;
+  return generate(
+    colorStops.map(({ color }) => ({ ...color, hex: withAlpha(color.hex, layer.opacity) })),
+    layer.angle,
+    colorStops.map(({ position, end }): StopPosition => (end === undefined ? position : [position, end])),
+    {
+      ...layer.options,
+      easings: colorStops.map(({ color }) => layer.easings[color.id]),
+      hints: colorStops.map(({ hint }) => hint)
+    }
+  );
+}
+
+/**
+ * Build a sampler for the color a layer shows at a position (0-100), as
+ * unrounded sRGB channels (0-255). Positions outside the stops take the
+ * nearest end color; wrap positions with `createLayerRepeater` for repeating layers.
+ * @returns null when the layer has no colors selected
+ */
+export function createLayerSampler(layer: GradientLayer, colors: ColorInfo[]): ((position: number) => Vec3) | null {
+  const colorStops = getLayerColorStops(layer, colors);
+  if (colorStops.length === 0) return null;
+
+  const { interpolation, hueInterpolation } = layer.options;
+  const toVec3 = ({ r, g, b }: RGB): Vec3 => [r, g, b];
+
+  return position => {
+    const nextIndex = colorStops.findIndex(stop => stop.position > position);
+    if (nextIndex === 0) return toVec3(colorStops[0].color.rgb);
+    if (nextIndex === -1) return toVec3(colorStops[colorStops.length - 1].color.rgb);
+
+    const stop = colorStops[nextIndex - 1];
+    const next = colorStops[nextIndex];
+    const start = getStopEnd(stop);
+    if (position <= start) return toVec3(stop.color.rgb);
+
+    const easing = layer.easings[stop.color.id];
+    let progress = (position - start) / (next.position - start);
+    if (easing && easing.type !== 'linear') {
+      progress = evaluateEasing(easing, progress);
+    } else if (stop.hint !== undefined) {
+      progress = applyHint(progress, stop.hint);
+    }
+
+    return mixColor(stop.color.rgb, next.color.rgb, progress, interpolation, hueInterpolation);
+  };
+}
+
+/**
+ * Wrap positions (0-100) into the first-to-last stop range, like CSS repeating
+ * gradients; positions pass through unchanged when the layer doesn't repeat.
+ * An infinite position (a zero-sized radial shape) also passes through, so it
+ * keeps the last stop color as in CSS and SVG.
+ */
+export function createLayerRepeater(layer: GradientLayer, colors: ColorInfo[]): (position: number) => number {
+  const stops = getLayerColorStops(layer, colors);
+  if (!layer.options.repeating || stops.length === 0) return position => position;
+
+  const first = stops[0].position;
+  const last = Math.max(...stops.map(stop => stop.end ?? stop.position));
+  const period = last - first;
+  if (period <= 0) return position => position;
+  return position =>
+    Number.isFinite(position) ? first + ((((position - first) % period) + period) % period) : position;
+}
+
+/**
+ * Sample the color a layer shows at a position (0-100), e.g. for a new stop
+ */
+export function sampleLayerColor(layer: GradientLayer, colors: ColorInfo[], position: number): RGB | null {
+  const sample = createLayerSampler(layer, colors);
+  if (!sample) return null;
+  const [r, g, b] = sample(position);
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+}
+
+/**
+ * A stop with nothing left for the renderer to interpret
+ */
+export interface ResolvedStop {
+  color: RGB;
+  /** Position along the gradient (0-1) */
+  offset: number;
+}
+
+/**
+ * Resolve a layer into plain sRGB stops for renderers without CSS gradient
+ * features (SVG, canvas, native code): two-position stops become a pair of
+ * stops, and easing, hints and the interpolation space are baked in.
+ * Layer opacity is left to the caller.
+ */
+export function resolveLayerStops(layer: GradientLayer, colors: ColorInfo[]): ResolvedStop[] {
+  const layerStops = getLayerColorStops(layer, colors);
+  const { settings, colorStops } = buildColorStops(
+    layerStops.map(({ color }) => color),
+    layerStops.map(({ position, end }): StopPosition => (end === undefined ? position : [position, end])),
+    {
+      ...layer.options,
+      easings: layerStops.map(({ color }) => layer.easings[color.id]),
+      hints: layerStops.map(({ hint }) => hint)
+    }
+  );
+
+  return expandStops(colorStops, settings).flatMap(stop => [
+    { color: stop.color.rgb, offset: stop.position / 100 },
+    ...(stop.end === undefined ? [] : [{ color: stop.color.rgb, offset: stop.end / 100 }])
+  ]);
+}
+
+export interface LayeredBackground {
+  /** One gradient per drawn layer, top layer first */
+  gradients: string[];
+  /** sRGB-only gradients, or null when no layer needs a fallback */
+  fallbackGradients: string[] | null;
+  blendModes: BlendMode[];
+}
+
+/**
+ * Combine layers into a stacked background.
+ * The first layer is painted on top, matching CSS background order;
+ * layers without selected colors are skipped.
+ */
+export function generateBackground(layers: GradientLayer[], colors: ColorInfo[]): LayeredBackground {
+  const gradients: string[] = [];
+  const fallbackGradients: string[] = [];
+  const blendModes: BlendMode[] = [];
+  let hasFallback = false;
+
+  for (const layer of layers) {
+    const gradient = generateLayerGradient(layer, colors);
+    if (!gradient) continue;
+    gradients.push(gradient);
+    fallbackGradients.push(generateLayerGradient(layer, colors, true));
+    blendModes.push(layer.blendMode);
+    hasFallback ||= needsFallback(layer.options);
+  }
+
+  return { gradients, fallbackGradients: hasFallback ? fallbackGradients : null, blendModes };
+}
+
+/**
+ * Format a stacked background as CSS declarations, one layer per line.
+ * The sRGB fallback comes first so supporting browsers override it;
+ * `background-blend-mode` is only emitted when a layer actually blends.
+ */
+export function formatBackgroundCSS({ gradients, fallbackGradients, blendModes }: LayeredBackground): string {
+  const lines: string[] = [];
+  if (fallbackGradients) {
+    lines.push(`background: ${fallbackGradients.join(',\n    ')};`);
+  }
+  lines.push(`background: ${gradients.join(',\n    ')};`);
+  if (blendModes.some(mode => mode !== 'normal')) {
+    lines.push(`background-blend-mode: ${blendModes.join(', ')};`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,70 @@
+/**
+ * CSS gradient geometry in pixels
+ * Computes where a CSS gradient actually draws on a box of a given size, so
+ * renderers without CSS gradients (SVG, canvas) can reproduce it exactly
+ */
+
+import type { GradientSettings } from './gradient';
+
+export interface GradientLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface RadialShapeGeometry {
+  cx: number;
+  cy: number;
+  /** Horizontal and vertical radius of the ending shape (equal for circles) */
+  rx: number;
+  ry: number;
+}
+
+/**
+ * Gradient line of `linear-gradient(<angle>deg, ...)` on a width × height box.
+ * 0deg points up and angles turn clockwise; the line runs through the center
+ * and is just long enough for the corners to get the first and last color.
+ */
+export function getLinearGradientLine(angle: number, width: number, height: number): GradientLine {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const cx = width / 2;
+  const cy = height / 2;
+  return { x1: cx - dx * half, y1: cy - dy * half, x2: cx + dx * half, y2: cy + dy * half };
+}
+
+/**
+ * Center and radii of a radial gradient's ending shape on a width × height box,
+ * following the CSS `<radial-size>` keywords
+ */
+export function getRadialShapeGeometry(
+  { shape, size, position }: Pick<GradientSettings, 'shape' | 'size' | 'position'>,
+  width: number,
+  height: number
+): RadialShapeGeometry {
+  const cx = (position.x / 100) * width;
+  const cy = (position.y / 100) * height;
+  const sidesX = [cx, width - cx].map(Math.abs);
+  const sidesY = [cy, height - cy].map(Math.abs);
+  const pick = size.startsWith('closest') ? Math.min : Math.max;
+  const sideX = pick(...sidesX);
+  const sideY = pick(...sidesY);
+
+  if (shape === 'circle') {
+    if (size.endsWith('side')) {
+      const r = pick(sideX, sideY);
+      return { cx, cy, rx: r, ry: r };
+    }
+    const corners = sidesX.flatMap(x => sidesY.map(y => Math.hypot(x, y)));
+    const r = pick(...corners);
+    return { cx, cy, rx: r, ry: r };
+  }
+
+  // Ellipses keep the aspect ratio of the side distances; corner sizes scale it by √2
+  // so the ellipse passes through the corner
+  const scale = size.endsWith('corner') ? Math.SQRT2 : 1;
+  return { cx, cy, rx: sideX * scale, ry: sideY * scale };
+}
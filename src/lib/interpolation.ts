@@ -0,0 +1,135 @@
+/**
+ * Gradient color interpolation following CSS Color 4
+ * Mixes two colors in a chosen space so sRGB fallbacks can approximate
+ * `in oklch` and friends with extra color stops
+ */
+
+import type { RGB } from './colorExtractor';
+import {
+  fromPolar,
+  hslToSrgb,
+  linearRgbToSrgb,
+  oklabToLinearRgb,
+  rgbToHsl,
+  rgbToLinearRgb,
+  rgbToOklab,
+  toPolar,
+  type Vec3
+} from './colorSpace';
+
+/** Color spaces accepted by `<color-interpolation-method>` that we can reproduce */
+export type InterpolationSpace = 'srgb' | 'srgb-linear' | 'oklab' | 'oklch' | 'hsl';
+
+/** Direction taken around the hue wheel in polar spaces */
+export type HueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+export const INTERPOLATION_SPACES: InterpolationSpace[] = ['srgb', 'srgb-linear', 'oklab', 'oklch', 'hsl'];
+
+export const HUE_INTERPOLATIONS: HueInterpolation[] = ['shorter', 'longer', 'increasing', 'decreasing'];
+
+/** Chroma (OKLCH) or saturation (HSL) below which the hue is powerless */
+const ACHROMATIC = { oklch: 0.0001, hsl: 0.01 };
+
+/**
+ * Whether a space interpolates hue as an angle
+ */
+export function isPolarSpace(space: InterpolationSpace): boolean {
+  return space === 'oklch' || space === 'hsl';
+}
+
+/**
+ * Format the `in <space> [<hue> hue]` part of a gradient, or '' for the sRGB default
+ */
+export function formatInterpolation(space: InterpolationSpace, hue: HueInterpolation = 'shorter'): string {
+  if (space === 'srgb') return '';
+  return isPolarSpace(space) && hue !== 'shorter' ? `in ${space} ${hue} hue` : `in ${space}`;
+}
+
+/**
+ * Adjust two hue angles so plain linear interpolation follows the requested arc
+ */
+function fixupHues(h1: number, h2: number, method: HueInterpolation): [number, number] {
+  const diff = h2 - h1;
+  switch (method) {
+    case 'longer':
+      if (diff > 0 && diff < 180) return [h1 + 360, h2];
+      if (diff > -180 && diff <= 0) return [h1, h2 + 360];
+      return [h1, h2];
+    case 'increasing':
+      return h2 < h1 ? [h1, h2 + 360] : [h1, h2];
+    case 'decreasing':
+      return h1 < h2 ? [h1 + 360, h2] : [h1, h2];
+    default:
+      if (diff > 180) return [h1 + 360, h2];
+      if (diff < -180) return [h1, h2 + 360];
+      return [h1, h2];
+  }
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/**
+ * Interpolate polar colors [x, y, hue] where `chroma` picks the channel
+ * that makes the hue powerless when it is (near) zero
+ */
+function lerpPolar(c1: Vec3, c2: Vec3, t: number, method: HueInterpolation, chroma: 0 | 1, epsilon: number): Vec3 {
+  // An achromatic color takes the hue of the other one, per CSS Color 4
+  let h1 = c1[2];
+  let h2 = c2[2];
+  if (c1[chroma] < epsilon) h1 = h2;
+  if (c2[chroma] < epsilon) h2 = h1;
+
+  const [from, to] = fixupHues(h1, h2, method);
+  return [lerp(c1[0], c2[0], t), lerp(c1[1], c2[1], t), (lerp(from, to, t) + 360) % 360];
+}
+
+/**
+ * Mix two sRGB colors at `t` (0-1) in the given interpolation space
+ */
+export function interpolateColor(
+  c1: RGB,
+  c2: RGB,
+  t: number,
+  space: InterpolationSpace,
+  hue: HueInterpolation = 'shorter'
+): RGB {
+  const [r, g, b] = mixColor(c1, c2, t, space, hue);
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+}
+
+/**
+ * Like `interpolateColor`, but returns unrounded sRGB channels (0-255)
+ * for renderers that dither instead of rounding
+ */
+export function mixColor(
+  c1: RGB,
+  c2: RGB,
+  t: number,
+  space: InterpolationSpace,
+  hue: HueInterpolation = 'shorter'
+): Vec3 {
+  switch (space) {
+    case 'srgb-linear': {
+      const [a, b] = [rgbToLinearRgb(c1), rgbToLinearRgb(c2)];
+      return linearRgbToSrgb([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]);
+    }
+    case 'oklab': {
+      const [a, b] = [rgbToOklab(c1), rgbToOklab(c2)];
+      return linearRgbToSrgb(oklabToLinearRgb([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]));
+    }
+    case 'oklch': {
+      const mixed = lerpPolar(toPolar(rgbToOklab(c1)), toPolar(rgbToOklab(c2)), t, hue, 1, ACHROMATIC.oklch);
+      return linearRgbToSrgb(oklabToLinearRgb(fromPolar(mixed)));
+    }
+    case 'hsl': {
+      const a = rgbToHsl(c1);
+      const b = rgbToHsl(c2);
+      const [s, l, h] = lerpPolar([a.s, a.l, a.h], [b.s, b.l, b.h], t, hue, 0, ACHROMATIC.hsl);
+      return hslToSrgb({ h, s, l });
+    }
+    default:
+      return [lerp(c1.r, c2.r, t), lerp(c1.g, c2.g, t), lerp(c1.b, c2.b, t)];
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Native platform code export
+ * Emits the selected gradient layer as SwiftUI, Jetpack Compose, Flutter or
+ * an Android vector drawable. CSS angles (0deg up, clockwise, corners reach
+ * the end colors) are converted to each platform's coordinates; stops are
+ * resolved to plain sRGB so easing, hints and interpolation spaces carry over.
+ */
+
+import type { ColorInfo, RGB } from './colorExtractor';
+import { type GradientLayer, type ResolvedStop, resolveLayerStops } from './gradient';
+import { getLinearGradientLine, getRadialShapeGeometry } from './gradientGeometry';
+
+export type NativePlatform = 'swiftui' | 'compose' | 'flutter' | 'android';
+
+export const NATIVE_PLATFORMS: Record<NativePlatform, { label: string; filename: string }> = {
+  swiftui: { label: 'SwiftUI', filename: 'Gradient.swift' },
+  compose: { label: 'Compose', filename: 'Gradient.kt' },
+  flutter: { label: 'Flutter', filename: 'gradient.dart' },
+  android: { label: 'Android XML', filename: 'gradient_background.xml' }
+};
+
+/** Viewport of the Android vector drawable; it scales with the view */
+const VIEWPORT = 100;
+
+const fixed = (value: number, digits = 3) => {
+  const text = value.toFixed(digits);
+  return text === `-${(0).toFixed(digits)}` ? (0).toFixed(digits) : text;
+};
+
+/**
+ * 0xAARRGGBB, as used by Compose, Flutter and Android (with a # prefix)
+ */
+function toArgb({ r, g, b }: RGB, opacity: number): string {
+  const alpha = Math.round((Math.max(0, Math.min(100, opacity)) / 100) * 255);
+  return [alpha, r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/**
+ * Geometry on a unit square: the CSS gradient line, radial ending shape and
+ * conic center. Platforms that take relative points stretch it with the view,
+ * so linear gradients size their line from the real bounds where they can.
+ */
+function getUnitGeometry(layer: GradientLayer) {
+  const { x1, y1, x2, y2 } = getLinearGradientLine(layer.angle, 1, 1);
+  const { cx, cy, rx, ry } = getRadialShapeGeometry(layer.options, 1, 1);
+  return { x1, y1, x2, y2, cx, cy, rx, ry };
+}
+
+/**
+ * Notes for settings a platform can't reproduce
+ */
+function getLimitations(layer: GradientLayer, comment: string): string[] {
+  const notes: string[] = [];
+  if (layer.options.repeating) notes.push(`${comment} Repeating gradients are drawn once; repeat the stops to tile them.`);
+  if (layer.blendMode !== 'normal') notes.push(`${comment} Blend mode "${layer.blendMode}" is not applied.`);
+  return notes;
+}
+
+function generateSwiftUI(layer: GradientLayer, stops: ResolvedStop[]): string {
+  const { cx, cy, rx } = getUnitGeometry(layer);
+  const opacity = layer.opacity < 100 ? `.opacity(${fixed(layer.opacity / 100, 2)})` : '';
+  const color = ({ r, g, b }: RGB) =>
+    `Color(red: ${fixed(r / 255)}, green: ${fixed(g / 255)}, blue: ${fixed(b / 255)})${opacity}`;
+  const gradient = [
+    'Gradient(stops: [',
+    ...stops.map(({ color: c, offset }) => `    .init(color: ${color(c)}, location: ${fixed(offset)}),`),
+    '])'
+  ].join('\n');
+  const point = (x: number, y: number) => `UnitPoint(x: ${fixed(x)}, y: ${fixed(y)})`;
+
+  let view: string;
+  switch (layer.options.type) {
+    case 'radial':
+      // The ellipse follows the frame's aspect ratio, like a CSS ellipse on its box
+      view = `EllipticalGradient(\n    gradient: gradient,\n    center: ${point(cx, cy)},\n    startRadiusFraction: 0,\n    endRadiusFraction: ${fixed(rx)}\n)`;
+      break;
+    case 'conic':
+      // SwiftUI angles start at the trailing edge; CSS starts at the top
+      view = `AngularGradient(\n    gradient: gradient,\n    center: ${point(cx, cy)},\n    startAngle: .degrees(${fixed(layer.angle - 90, 1)}),\n    endAngle: .degrees(${fixed(layer.angle + 270, 1)})\n)`;
+      break;
+    default:
+      // Unit points stretch with the frame, so size the CSS gradient line from the real frame
+      view = [
+        'GeometryReader { proxy in',
+        `    let angle = Angle.degrees(${fixed(layer.angle, 1)}).radians`,
+        '    let width = max(proxy.size.width, 1)',
+        '    let height = max(proxy.size.height, 1)',
+        '    let half = (abs(width * sin(angle)) + abs(height * cos(angle))) / 2',
+        '    let dx = sin(angle) * half / width',
+        '    let dy = -cos(angle) * half / height',
+        '    LinearGradient(',
+        '        gradient: gradient,',
+        '        startPoint: UnitPoint(x: 0.5 - dx, y: 0.5 - dy),',
+        '        endPoint: UnitPoint(x: 0.5 + dx, y: 0.5 + dy)',
+        '    )',
+        '}'
+      ].join('\n');
+  }
+
+  return [
+    'import SwiftUI',
+    '',
+    ...getLimitations(layer, '//'),
+    'struct GradientBackground: View {',
+    `    private let gradient = ${gradient.split('\n').join('\n    ')}`,
+    '',
+    '    var body: some View {',
+    `        ${view.split('\n').join('\n        ')}`,
+    '    }',
+    '}',
+    ''
+  ].join('\n');
+}
+
+function generateCompose(layer: GradientLayer, stops: ResolvedStop[]): string {
+  const { cx, cy, rx } = getUnitGeometry(layer);
+  const colorStops = stops.map(
+    ({ color, offset }) => `    ${fixed(offset)}f to Color(0x${toArgb(color, layer.opacity)}),`
+  );
+  const offset = (x: number, y: number) => `Offset(size.width * ${fixed(x)}f, size.height * ${fixed(y)}f)`;
+
+  let brush: string[];
+  let draw: string;
+  switch (layer.options.type) {
+    case 'radial':
+      brush = [
+        'val brush = Brush.radialGradient(',
+        '    colorStops = *colorStops,',
+        `    center = ${offset(cx, cy)},`,
+        '    // Compose draws circles; CSS ellipses are matched along the x axis',
+        `    radius = size.width * ${fixed(rx)}f`,
+        ')'
+      ];
+      draw = 'onDrawBehind { drawRect(brush) }';
+      break;
+    case 'conic':
+      brush = [`val center = ${offset(cx, cy)}`, 'val brush = Brush.sweepGradient(colorStops = *colorStops, center = center)'];
+      // Sweep gradients start at 3 o'clock; rotate so the CSS `from` angle (12 o'clock) lines up.
+      // drawWithCache doesn't clip, so keep the oversized circle inside the bounds.
+      draw = [
+        'onDrawBehind {',
+        '    clipRect {',
+        `        rotate(degrees = ${fixed(layer.angle - 90, 1)}f, pivot = center) {`,
+        '            drawCircle(brush, radius = size.maxDimension * 1.5f, center = center)',
+        '        }',
+        '    }',
+        '}'
+      ].join('\n');
+      break;
+    default:
+      // Same gradient line as CSS: through the center, long enough to reach the corners
+      brush = [
+        `val angle = Math.toRadians(${fixed(layer.angle, 1)})`,
+        'val direction = Offset(sin(angle).toFloat(), -cos(angle).toFloat())',
+        'val half = (abs(size.width * direction.x) + abs(size.height * direction.y)) / 2f',
+        'val brush = Brush.linearGradient(',
+        '    colorStops = *colorStops,',
+        '    start = size.center - direction * half,',
+        '    end = size.center + direction * half',
+        ')'
+      ];
+      draw = 'onDrawBehind { drawRect(brush) }';
+  }
+
+  const imports = [
+    'androidx.compose.ui.Modifier',
+    'androidx.compose.ui.draw.drawWithCache',
+    'androidx.compose.ui.geometry.Offset',
+    'androidx.compose.ui.graphics.Brush',
+    'androidx.compose.ui.graphics.Color',
+    ...(layer.options.type === 'conic'
+      ? ['androidx.compose.ui.graphics.drawscope.clipRect', 'androidx.compose.ui.graphics.drawscope.rotate']
+      : []),
+    ...(layer.options.type === 'linear'
+      ? ['androidx.compose.ui.geometry.center', 'kotlin.math.abs', 'kotlin.math.cos', 'kotlin.math.sin']
+      : [])
+  ].sort();
+
+  return [
+    ...imports.map(name => `import ${name}`),
+    '',
+    ...getLimitations(layer, '//'),
+    'private val colorStops = arrayOf(',
+    ...colorStops,
+    ')',
+    '',
+    'fun Modifier.gradientBackground(): Modifier = drawWithCache {',
+    ...brush.map(line => `    ${line}`),
+    ...draw.split('\n').map(line => `    ${line}`),
+    '}',
+    ''
+  ].join('\n');
+}
+
+/** Dart source of the transform linear gradients use to follow CSS angles */
+const FLUTTER_CSS_TRANSFORM = [
+  '/// Turns a left-to-right gradient into the CSS gradient line for the painted box',
+  'class CssAngleTransform extends GradientTransform {',
+  '  const CssAngleTransform(this.degrees);',
+  '',
+  '  final double degrees;',
+  '',
+  '  @override',
+  '  Matrix4 transform(Rect bounds, {TextDirection? textDirection}) {',
+  '    final radians = degrees * math.pi / 180;',
+  '    final length = (bounds.width * math.sin(radians)).abs() + (bounds.height * math.cos(radians)).abs();',
+  '    final scale = bounds.width == 0 ? 1.0 : length / bounds.width;',
+  '    final center = bounds.center;',
+  '    return Matrix4.identity()',
+  '      ..translate(center.dx, center.dy)',
+  '      ..rotateZ(radians - math.pi / 2)',
+  '      ..scale(scale, scale)',
+  '      ..translate(-center.dx, -center.dy);',
+  '  }',
+  '}'
+];
+
+function generateFlutter(layer: GradientLayer, stops: ResolvedStop[]): string {
+  const { cx, cy, rx } = getUnitGeometry(layer);
+  // Alignment runs from -1 to 1 across the box, y pointing down
+  const alignment = (x: number, y: number) => `Alignment(${fixed(x * 2 - 1)}, ${fixed(y * 2 - 1)})`;
+  const colors = stops.map(({ color }) => `  Color(0x${toArgb(color, layer.opacity)}),`);
+  const offsets = stops.map(({ offset }) => fixed(offset)).join(', ');
+
+  let gradient: string[];
+  switch (layer.options.type) {
+    case 'radial':
+      gradient = [
+        'RadialGradient(',
+        `  center: ${alignment(cx, cy)},`,
+        '  // Relative to the shortest side of the box',
+        `  radius: ${fixed(rx)},`
+      ];
+      break;
+    case 'conic':
+      gradient = [
+        'SweepGradient(',
+        `  center: ${alignment(cx, cy)},`,
+        '  // Sweeps start at 3 o\'clock; CSS starts at 12',
+        `  transform: GradientRotation(${fixed(((layer.angle - 90) * Math.PI) / 180, 4)}),`
+      ];
+      break;
+    default:
+      gradient = [
+        'LinearGradient(',
+        '  begin: Alignment.centerLeft,',
+        '  end: Alignment.centerRight,',
+        `  transform: CssAngleTransform(${fixed(layer.angle, 1)}),`
+      ];
+  }
+
+  const isLinear = layer.options.type === 'linear';
+  return [
+    ...(isLinear ? ["import 'dart:math' as math;", ''] : []),
+    // widgets.dart also exports Matrix4, which the transform needs
+    isLinear ? "import 'package:flutter/widgets.dart';" : "import 'package:flutter/painting.dart';",
+    '',
+    ...getLimitations(layer, '//'),
+    `const gradient = ${gradient[0]}`,
+    ...gradient.slice(1),
+    '  colors: [',
+    ...colors.map(line => `  ${line}`),
+    '  ],',
+    `  stops: [${offsets}],`,
+    ');',
+    ...(isLinear ? ['', ...FLUTTER_CSS_TRANSFORM] : []),
+    ''
+  ].join('\n');
+}
+
+function generateAndroid(layer: GradientLayer, stops: ResolvedStop[]): string {
+  const { x1, y1, x2, y2, cx, cy, rx } = getUnitGeometry(layer);
+  const v = (value: number) => fixed(value * VIEWPORT, 2);
+  const items = stops.map(
+    ({ color, offset }) => `                <item android:offset="${fixed(offset)}" android:color="#${toArgb(color, layer.opacity)}" />`
+  );
+
+  let attributes: string[];
+  switch (layer.options.type) {
+    case 'radial':
+      attributes = ['android:type="radial"', `android:centerX="${v(cx)}"`, `android:centerY="${v(cy)}"`, `android:gradientRadius="${v(rx)}"`];
+      break;
+    case 'conic':
+      attributes = ['android:type="sweep"', `android:centerX="${v(cx)}"`, `android:centerY="${v(cy)}"`];
+      break;
+    default:
+      attributes = [
+        'android:type="linear"',
+        `android:startX="${v(x1)}"`,
+        `android:startY="${v(y1)}"`,
+        `android:endX="${v(x2)}"`,
+        `android:endY="${v(y2)}"`
+      ];
+  }
+
+  // Sweep gradients start at 3 o'clock; a rotated group lines them up with CSS.
+  // The path overshoots the viewport so the rotated corners stay covered.
+  const isConic = layer.options.type === 'conic';
+  const path = isConic ? `M${-VIEWPORT},${-VIEWPORT}h${VIEWPORT * 3}v${VIEWPORT * 3}h${-VIEWPORT * 3}z` : `M0,0h${VIEWPORT}v${VIEWPORT}h${-VIEWPORT}z`;
+  const body = [
+    `<path android:pathData="${path}">`,
+    '    <aapt:attr name="android:fillColor">',
+    '        <gradient',
+    ...attributes.map(attribute => `            ${attribute}`),
+    '            >',
+    ...items.map(item => item.replace(/^ {4}/, '')),
+    '        </gradient>',
+    '    </aapt:attr>',
+    '</path>'
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    ...getLimitations(layer, '').map(note => `<!--${note} -->`),
+    '<!-- res/drawable/gradient_background.xml; the gradient stretches with the view -->',
+    ...(layer.options.type === 'linear'
+      ? ['<!-- The angle matches CSS on square views only; other aspect ratios skew it -->']
+      : []),
+    '<vector xmlns:android="http://schemas.android.com/apk/res/android"',
+    '    xmlns:aapt="http://schemas.android.com/aapt"',
+    `    android:width="${VIEWPORT}dp"`,
+    `    android:height="${VIEWPORT}dp"`,
+    `    android:viewportWidth="${VIEWPORT}"`,
+    `    android:viewportHeight="${VIEWPORT}">`,
+    ...(isConic
+      ? [
+          `    <group android:rotation="${fixed(layer.angle - 90, 1)}" android:pivotX="${v(cx)}" android:pivotY="${v(cy)}">`,
+          ...body.map(line => `        ${line}`),
+          '    </group>'
+        ]
+      : body.map(line => `    ${line}`)),
+    '</vector>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Generate native code for one gradient layer
+ * @returns An empty string when the layer has no colors selected
+ */
+export function generateNativeCode(platform: NativePlatform, layer: GradientLayer, colors: ColorInfo[]): string {
+  const stops = resolveLayerStops(layer, colors);
+  if (stops.length === 0) return '';
+
+  switch (platform) {
+    case 'swiftui':
+      return generateSwiftUI(layer, stops);
+    case 'compose':
+      return generateCompose(layer, stops);
+    case 'flutter':
+      return generateFlutter(layer, stops);
+    case 'android':
+      return generateAndroid(layer, stops);
+  }
+}
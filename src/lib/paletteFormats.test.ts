@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { createColorInfo, type RGB } from './colorExtractor';
+import {
+  parseAse,
+  parseCssColors,
+  parseGpl,
+  parseJsonPalette,
+  serializeAse,
+  serializeGpl,
+  serializeProcreate,
+  serializeSketchPalette
+} from './paletteFormats';
+import { crc32 } from './zip';
+
+const PALETTE: RGB[] = [
+  { r: 255, g: 107, b: 107 },
+  { r: 78, g: 205, b: 196 },
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 255, b: 255 },
+  { r: 12, g: 13, b: 122 }
+];
+
+const colors = PALETTE.map(rgb => createColorInfo(rgb));
+
+/**
+ * Read the single stored entry of a ZIP archive, checking its CRC
+ */
+function readOnlyZipEntry(zip: Uint8Array): { name: string; data: Uint8Array } {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  expect(view.getUint16(8, true)).toBe(0);
+  const size = view.getUint32(18, true);
+  const nameLength = view.getUint16(26, true);
+  const name = new TextDecoder().decode(zip.slice(30, 30 + nameLength));
+  const data = zip.slice(30 + nameLength, 30 + nameLength + size);
+  expect(crc32(data)).toBe(view.getUint32(14, true));
+  expect(view.getUint16(zip.length - 22 + 10, true)).toBe(1);
+  return { name, data };
+}
+
+/**
+ * Walk the ASE blocks, reading group names and RGB colors back
+ */
+function readAse(bytes: Uint8Array): { groups: string[]; colors: RGB[] } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readName = (offset: number) => {
+    const length = view.getUint16(offset);
+    const chars = Array.from({ length: length - 1 }, (_, i) => view.getUint16(offset + 2 + i * 2));
+    return { name: String.fromCharCode(...chars), end: offset + 2 + length * 2 };
+  };
+
+  const groups: string[] = [];
+  const result: RGB[] = [];
+  let offset = 12;
+  for (let block = 0; block < view.getUint32(8); block++) {
+    const type = view.getUint16(offset);
+    const size = view.getUint32(offset + 2);
+    const start = offset + 6;
+    if (type === 0xc001) groups.push(readName(start).name);
+    if (type === 0x0001) {
+      const { end } = readName(start);
+      expect(new TextDecoder().decode(bytes.slice(end, end + 4))).toBe('RGB ');
+      const [r, g, b] = [0, 1, 2].map(i => Math.round(view.getFloat32(end + 4 + i * 4) * 255));
+      result.push({ r, g, b });
+    }
+    offset = start + size;
+  }
+  expect(offset).toBe(bytes.length);
+  return { groups, colors: result };
+}
+
+describe('ASE', () => {
+  it('writes a version 1.0 file whose colors read back exactly', () => {
+    const bytes = serializeAse(colors, 'Test palette');
+    const view = new DataView(bytes.buffer);
+    expect(new TextDecoder().decode(bytes.slice(0, 4))).toBe('ASEF');
+    expect(view.getUint16(4)).toBe(1);
+    expect(view.getUint32(8)).toBe(PALETTE.length + 2);
+
+    expect(readAse(bytes)).toEqual({ groups: ['Test palette'], colors: PALETTE });
+  });
+
+  it('round-trips through parseAse', () => {
+    expect(parseAse(serializeAse(colors, 'Test palette').buffer)).toEqual(PALETTE);
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseAse(new TextEncoder().encode('GIMP Palette').buffer)).toThrow('Invalid ASE file');
+  });
+
+  it('rejects a color block whose name runs past its end', () => {
+    const bytes = serializeAse(colors, 'Test palette');
+    const view = new DataView(bytes.buffer);
+    // First color block: after the header and the group start block
+    const groupSize = view.getUint32(14);
+    view.setUint16(12 + 6 + groupSize + 6, 0xffff);
+    expect(() => parseAse(bytes.buffer)).toThrow('Invalid ASE file');
+  });
+});
+
+describe('GPL', () => {
+  it('writes one row per color after the header', () => {
+    const lines = serializeGpl(colors, 'Test palette').split('\n');
+    expect(lines.slice(0, 2)).toEqual(['GIMP Palette', 'Name: Test palette']);
+    const rows = lines
+      .map(line => /^\s*(\d+)\s+(\d+)\s+(\d+)\t/.exec(line))
+      .filter(match => match !== null)
+      .map(([, r, g, b]) => ({ r: Number(r), g: Number(g), b: Number(b) }));
+    expect(rows).toEqual(PALETTE);
+  });
+
+  it('round-trips through parseGpl', () => {
+    expect(parseGpl(serializeGpl(colors, 'Test palette'))).toEqual(PALETTE);
+  });
+});
+
+describe('Sketch', () => {
+  it('writes 0-1 channels that scale back to the palette', () => {
+    const palette = JSON.parse(serializeSketchPalette(colors));
+    expect(palette.compatibleVersion).toBe('2.0');
+    const rows = palette.colors.map(({ red, green, blue }: { red: number; green: number; blue: number }) => ({
+      r: Math.round(red * 255),
+      g: Math.round(green * 255),
+      b: Math.round(blue * 255)
+    }));
+    expect(rows).toEqual(PALETTE);
+  });
+
+  it('round-trips through parseJsonPalette', () => {
+    expect(parseJsonPalette(serializeSketchPalette(colors))).toEqual(PALETTE);
+  });
+});
+
+describe('Procreate', () => {
+  it('stores Swatches.json in a valid ZIP', () => {
+    const { name, data } = readOnlyZipEntry(serializeProcreate(colors, 'Test palette'));
+    expect(name).toBe('Swatches.json');
+
+    const [palette] = JSON.parse(new TextDecoder().decode(data));
+    expect(palette.name).toBe('Test palette');
+    expect(palette.swatches).toHaveLength(PALETTE.length);
+    // Black has no brightness and white no saturation
+    expect(palette.swatches[2].brightness).toBe(0);
+    expect(palette.swatches[3]).toMatchObject({ saturation: 0, brightness: 1 });
+    expect(parseJsonPalette(new TextDecoder().decode(data))).toEqual(PALETTE);
+  });
+
+  it('keeps at most 30 swatches', () => {
+    const many = Array.from({ length: 40 }, (_, i) => createColorInfo({ r: i, g: i, b: i }));
+    const { data } = readOnlyZipEntry(serializeProcreate(many, 'Many'));
+    expect(JSON.parse(new TextDecoder().decode(data))[0].swatches).toHaveLength(30);
+  });
+});
+
+describe('CSS', () => {
+  it('reads colors from declaration values, not selectors', () => {
+    const css = '#add, #bad-button:hover { color: #fade; border: 1px solid rgb(0 0 255); }\n#fade{background:#0f0}';
+    expect(parseCssColors(css)).toEqual([
+      { r: 255, g: 170, b: 221 },
+      { r: 0, g: 0, b: 255 },
+      { r: 0, g: 255, b: 0 }
+    ]);
+  });
+
+  it('reads a pasted list without rules', () => {
+    expect(parseCssColors('#ff0000, hsl(120 100% 50%)')).toEqual([
+      { r: 255, g: 0, b: 0 },
+      { r: 0, g: 255, b: 0 }
+    ]);
+  });
+});
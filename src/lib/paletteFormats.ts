@@ -0,0 +1,402 @@
+/**
+ * Palette file formats for design tools
+ * Serializes `ColorInfo[]` as Adobe Swatch Exchange (.ase), GIMP palette
+ * (.gpl), Procreate swatches (.swatches) and Sketch palette (.sketchpalette),
+ * and imports ASE, GPL, JSON and CSS so a palette can be used without an image
+ */
+
+import { type ColorInfo, createColorInfo, hexToRgb, type RGB } from './colorExtractor';
+import { hslToRgb, labToRgb } from './colorSpace';
+import { createZip } from './zip';
+
+export type PaletteFormat = 'ase' | 'gpl' | 'procreate' | 'sketch';
+
+export interface PaletteFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const PALETTE_FORMATS: Record<PaletteFormat, PaletteFormatInfo> = {
+  ase: { label: 'Adobe (.ase)', extension: 'ase', mimeType: 'application/octet-stream' },
+  gpl: { label: 'GIMP (.gpl)', extension: 'gpl', mimeType: 'text/plain' },
+  procreate: { label: 'Procreate (.swatches)', extension: 'swatches', mimeType: 'application/zip' },
+  sketch: { label: 'Sketch (.sketchpalette)', extension: 'sketchpalette', mimeType: 'application/json' }
+};
+
+/** Procreate palettes hold at most 30 swatches */
+const PROCREATE_MAX_SWATCHES = 30;
+
+const ASE_SIGNATURE = 'ASEF';
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+/** ASE color type: 0 global, 1 spot, 2 normal */
+const ASE_NORMAL = 2;
+
+/**
+ * Adobe Swatch Exchange: big-endian blocks with UTF-16 names and float
+ * channels, the colors wrapped in a group named after the palette
+ */
+export function serializeAse(colors: ColorInfo[], name: string): Uint8Array<ArrayBuffer> {
+  const nameSize = (text: string) => 2 + (text.length + 1) * 2;
+  const blocks = [
+    { type: ASE_GROUP_START, size: nameSize(name) },
+    ...colors.map(color => ({ type: ASE_COLOR, size: nameSize(color.hex) + 4 + 12 + 2 })),
+    { type: ASE_GROUP_END, size: 0 }
+  ];
+
+  const buffer = new Uint8Array(12 + blocks.reduce((sum, block) => sum + 6 + block.size, 0));
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const writeName = (text: string) => {
+    view.setUint16(offset, text.length + 1);
+    offset += 2;
+    for (let i = 0; i < text.length; i++, offset += 2) view.setUint16(offset, text.charCodeAt(i));
+    offset += 2; // null terminator
+  };
+
+  for (let i = 0; i < 4; i++) view.setUint8(offset++, ASE_SIGNATURE.charCodeAt(i));
+  view.setUint16(4, 1); // version 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  offset = 12;
+
+  blocks.forEach((block, index) => {
+    view.setUint16(offset, block.type);
+    view.setUint32(offset + 2, block.size);
+    offset += 6;
+
+    if (block.type === ASE_GROUP_START) {
+      writeName(name);
+    } else if (block.type === ASE_COLOR) {
+      const { hex, rgb } = colors[index - 1];
+      writeName(hex);
+      for (const char of 'RGB ') view.setUint8(offset++, char.charCodeAt(0));
+      [rgb.r, rgb.g, rgb.b].forEach(channel => {
+        view.setFloat32(offset, channel / 255);
+        offset += 4;
+      });
+      view.setUint16(offset, ASE_NORMAL);
+      offset += 2;
+    }
+  });
+
+  return buffer;
+}
+
+/**
+ * GIMP palette: a plain-text header and one `R G B name` row per color
+ */
+export function serializeGpl(colors: ColorInfo[], name: string): string {
+  const pad = (n: number) => String(n).padStart(3, ' ');
+  return [
+    'GIMP Palette',
+    `Name: ${name}`,
+    `Columns: ${Math.min(colors.length, 16)}`,
+    '#',
+    ...colors.map(({ rgb, hex }) => `${pad(rgb.r)} ${pad(rgb.g)} ${pad(rgb.b)}\t${hex}`),
+    ''
+  ].join('\n');
+}
+
+/**
+ * Convert sRGB (0-255) to HSB with every channel in 0-1, as Procreate stores it
+ */
+function rgbToHsb({ r, g, b }: ColorInfo['rgb']): { hue: number; saturation: number; brightness: number } {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+
+  let hue = 0;
+  if (delta > 0) {
+    if (max === rn) hue = ((gn - bn) / delta + 6) % 6;
+    else if (max === gn) hue = (bn - rn) / delta + 2;
+    else hue = (rn - gn) / delta + 4;
+  }
+
+  return { hue: hue / 6, saturation: max === 0 ? 0 : delta / max, brightness: max };
+}
+
+/**
+ * Procreate swatches: a ZIP holding `Swatches.json` with HSB colors.
+ * Only the first 30 colors fit a Procreate palette.
+ */
+export function serializeProcreate(colors: ColorInfo[], name: string): Uint8Array<ArrayBuffer> {
+  const swatches = colors.slice(0, PROCREATE_MAX_SWATCHES).map(color => ({
+    ...rgbToHsb(color.rgb),
+    alpha: 1,
+    colorSpace: 0
+  }));
+  const json = JSON.stringify([{ name, swatches }]);
+  return createZip([{ name: 'Swatches.json', data: new TextEncoder().encode(json) }]);
+}
+
+/**
+ * Sketch palette (Sketch Palettes plugin format 2.0) with 0-1 RGBA colors
+ */
+export function serializeSketchPalette(colors: ColorInfo[]): string {
+  const round = (channel: number) => Math.round((channel / 255) * 10000) / 10000;
+  return JSON.stringify(
+    {
+      compatibleVersion: '2.0',
+      pluginVersion: '2.22',
+      colors: colors.map(({ rgb }) => ({ red: round(rgb.r), green: round(rgb.g), blue: round(rgb.b), alpha: 1 })),
+      gradients: [],
+      images: []
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Serialize a palette in the given format
+ * @param name - Palette name stored in formats that have one
+ */
+export function serializePalette(format: PaletteFormat, colors: ColorInfo[], name: string): Uint8Array<ArrayBuffer> | string {
+  switch (format) {
+    case 'ase':
+      return serializeAse(colors, name);
+    case 'gpl':
+      return serializeGpl(colors, name);
+    case 'procreate':
+      return serializeProcreate(colors, name);
+    case 'sketch':
+      return serializeSketchPalette(colors);
+  }
+}
+
+/** File extensions the importer understands */
+export const PALETTE_IMPORT_EXTENSIONS = ['.ase', '.gpl', '.json', '.css'];
+
+/** Upper bound on imported colors; larger files are usually not palettes */
+const MAX_IMPORTED_COLORS = 64;
+
+const INVALID_ASE = 'Invalid ASE file';
+
+/** Float channels per ASE color model */
+const ASE_CHANNELS: Record<string, number> = { 'RGB ': 3, CMYK: 4, 'LAB ': 3, Gray: 1 };
+
+const toByte = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+/**
+ * Read the colors of an Adobe Swatch Exchange file.
+ * RGB, CMYK, LAB and Gray swatches are converted to sRGB; CMYK is converted
+ * naively (no ICC profile), LAB is read as D65.
+ */
+export function parseAse(buffer: ArrayBuffer): RGB[] {
+  const view = new DataView(buffer);
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+  if (signature !== ASE_SIGNATURE || buffer.byteLength < 12) {
+    throw new Error(INVALID_ASE);
+  }
+
+  const colors: RGB[] = [];
+  const blockCount = view.getUint32(8);
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.byteLength; block++) {
+    const type = view.getUint16(offset);
+    const size = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + size;
+    if (type !== ASE_COLOR || offset > buffer.byteLength) continue;
+
+    // The name and channels must fit in the block
+    if (start + 2 > offset) throw new Error(INVALID_ASE);
+    let cursor = start + 2 + view.getUint16(start) * 2;
+    if (cursor + 4 > offset) throw new Error(INVALID_ASE);
+    const model = String.fromCharCode(...new Uint8Array(buffer, cursor, 4));
+    cursor += 4;
+    if (cursor + (ASE_CHANNELS[model] ?? 0) * 4 > offset) throw new Error(INVALID_ASE);
+    const read = (index: number) => view.getFloat32(cursor + index * 4);
+
+    switch (model) {
+      case 'RGB ':
+        colors.push({ r: toByte(read(0)), g: toByte(read(1)), b: toByte(read(2)) });
+        break;
+      case 'CMYK': {
+        const k = read(3);
+        colors.push({
+          r: toByte((1 - read(0)) * (1 - k)),
+          g: toByte((1 - read(1)) * (1 - k)),
+          b: toByte((1 - read(2)) * (1 - k))
+        });
+        break;
+      }
+      case 'LAB ':
+        colors.push(labToRgb([read(0) * 100, read(1), read(2)]));
+        break;
+      case 'Gray': {
+        const gray = toByte(read(0));
+        colors.push({ r: gray, g: gray, b: gray });
+        break;
+      }
+    }
+  }
+
+  return colors;
+}
+
+/**
+ * Read the colors of a GIMP palette: every `R G B [name]` row after the header
+ */
+export function parseGpl(text: string): RGB[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== 'GIMP Palette') {
+    throw new Error('Not a GIMP palette file');
+  }
+
+  const colors: RGB[] = [];
+  lines.slice(1).forEach(line => {
+    const match = /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(\s|$)/.exec(line);
+    if (!match) return;
+    const [r, g, b] = match.slice(1, 4).map(n => Math.min(255, Number(n)));
+    colors.push({ r, g, b });
+  });
+  return colors;
+}
+
+/**
+ * Find colors anywhere in parsed JSON: HEX strings (plain arrays, DTCG or
+ * Style Dictionary tokens), 0-1 `red`/`green`/`blue` objects (Sketch) and
+ * 0-1 `hue`/`saturation`/`brightness` objects (Procreate)
+ */
+export function parseJsonPalette(text: string): RGB[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const colors: RGB[] = [];
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      const rgb = hexToRgb(value.length === 9 ? value.slice(0, 7) : value);
+      if (rgb && value.trim().startsWith('#')) colors.push(rgb);
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const record = value as Record<string, unknown>;
+    const isNumber = (key: string) => typeof record[key] === 'number';
+    if (isNumber('red') && isNumber('green') && isNumber('blue')) {
+      colors.push({ r: toByte(record.red as number), g: toByte(record.green as number), b: toByte(record.blue as number) });
+      return;
+    }
+    if (isNumber('hue') && isNumber('saturation') && isNumber('brightness')) {
+      colors.push(hsbToRgb(record.hue as number, record.saturation as number, record.brightness as number));
+      return;
+    }
+    Object.values(record).forEach(visit);
+  };
+
+  visit(data);
+  return colors;
+}
+
+/**
+ * Convert HSB with every channel in 0-1 to sRGB (0-255)
+ */
+function hsbToRgb(hue: number, saturation: number, brightness: number): RGB {
+  const f = (n: number) => {
+    const k = (n + hue * 6) % 6;
+    return brightness - brightness * saturation * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return { r: toByte(f(5)), g: toByte(f(3)), b: toByte(f(1)) };
+}
+
+/**
+ * Find HEX, rgb()/rgba() and hsl()/hsla() colors in CSS, in order of appearance.
+ * Alpha is dropped. In text with rules only declaration values are read, so id
+ * selectors like `#fade` aren't taken for colors; other text is read whole.
+ */
+export function parseCssColors(text: string): RGB[] {
+  const pattern = /#[0-9a-f]{3,8}\b|rgba?\(([^)]*)\)|hsla?\(([^)]*)\)/gi;
+  const colors: RGB[] = [];
+  const values = text.includes('{') ? Array.from(text.matchAll(/:([^;{}]*)(?=[;}]|$)/g), ([, value]) => value) : [text];
+
+  const channels = (args: string) =>
+    args
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .slice(0, 3);
+
+  for (const match of values.flatMap(value => [...value.matchAll(pattern)])) {
+    const [token, rgbArgs, hslArgs] = match;
+
+    if (rgbArgs !== undefined) {
+      const values = channels(rgbArgs).map(v =>
+        v.endsWith('%') ? toByte(Number.parseFloat(v) / 100) : Math.round(Math.min(255, Math.max(0, Number.parseFloat(v))))
+      );
+      if (values.length === 3 && values.every(Number.isFinite)) colors.push({ r: values[0], g: values[1], b: values[2] });
+    } else if (hslArgs !== undefined) {
+      const [h, s, l] = channels(hslArgs).map(v => Number.parseFloat(v));
+      if ([h, s, l].every(Number.isFinite)) colors.push(hslToRgb({ h: ((h % 360) + 360) % 360, s, l }));
+    } else {
+      // #rgba and #rrggbbaa: keep the color, drop the alpha digits
+      const digits = token.slice(1);
+      const hex = digits.length === 4 ? digits.slice(0, 3) : digits.length === 8 ? digits.slice(0, 6) : digits;
+      const rgb = hexToRgb(hex);
+      if (rgb) colors.push(rgb);
+    }
+  }
+
+  return colors;
+}
+
+/**
+ * Turn parsed colors into palette entries, dropping duplicates
+ */
+export function toPaletteColors(colors: RGB[]): ColorInfo[] {
+  const unique = new Map<string, ColorInfo>();
+  colors.forEach(rgb => {
+    const color = createColorInfo(rgb);
+    if (!unique.has(color.hex)) unique.set(color.hex, color);
+  });
+  return [...unique.values()].slice(0, MAX_IMPORTED_COLORS);
+}
+
+/**
+ * Whether a file looks like a palette the importer can read
+ */
+export function isPaletteFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return PALETTE_IMPORT_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Read a palette file (.ase, .gpl, .json or .css) into palette entries
+ * @throws Error when the file can't be read or holds no colors
+ */
+export async function importPaletteFile(file: File): Promise<ColorInfo[]> {
+  const name = file.name.toLowerCase();
+  let colors: RGB[];
+
+  if (name.endsWith('.ase')) {
+    colors = parseAse(await file.arrayBuffer());
+  } else if (name.endsWith('.gpl')) {
+    colors = parseGpl(await file.text());
+  } else if (name.endsWith('.json')) {
+    colors = parseJsonPalette(await file.text());
+  } else if (name.endsWith('.css')) {
+    colors = parseCssColors(await file.text());
+  } else {
+    throw new Error('Unsupported palette file');
+  }
+
+  const palette = toPaletteColors(colors);
+  if (palette.length === 0) {
+    throw new Error('No colors found in the file');
+  }
+  return palette;
+}
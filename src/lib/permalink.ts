@@ -0,0 +1,261 @@
+/**
+ * Shareable permalinks
+ * Serializes the palette and gradient layers into a compact, versioned query
+ * string so the editor can be restored without the source image.
+ *
+ * `v`       format version
+ * `palette` concatenated 6-digit hex colors
+ * `layers`  base64url JSON of the layers, referencing colors by palette index
+ * `active`  index of the selected layer
+ */
+
+import { type ColorInfo, createColorInfo, hexToRgb, rgbToHex } from './colorExtractor';
+import type { Easing } from './easing';
+import {
+  BLEND_MODES,
+  type BlendMode,
+  createGradientLayer,
+  DEFAULT_GRADIENT_OPTIONS,
+  type GradientLayer,
+  type GradientSettings,
+  getEvenStops,
+  MAX_LAYERS
+} from './gradient';
+import { HUE_INTERPOLATIONS, INTERPOLATION_SPACES } from './interpolation';
+import { createQueryString, type Params } from './utils';
+
+export const PERMALINK_VERSION = 1;
+
+/** Query parameters owned by the permalink */
+const PERMALINK_PARAMS = ['v', 'palette', 'layers', 'active'] as const;
+
+/** Matches the palette size limit of the importers */
+const MAX_COLORS = 64;
+
+export interface PermalinkState {
+  colors: ColorInfo[];
+  layers: GradientLayer[];
+  activeLayerId: string;
+}
+
+/** A stop as [palette index, position, end of a two-position stop] */
+type EncodedStop = [number, number] | [number, number, number];
+
+/** A layer with default values left out */
+interface EncodedLayer {
+  /** Selected colors in palette order, with their stops */
+  s: EncodedStop[];
+  /** Angle */
+  a: number;
+  /** Gradient settings that differ from the defaults */
+  o?: Partial<GradientSettings>;
+  /** Easings by palette index */
+  e?: Record<number, Easing>;
+  /** Color hints by palette index */
+  h?: Record<number, number>;
+  /** Opacity, when below 100 */
+  p?: number;
+  /** Blend mode, when not normal */
+  b?: BlendMode;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Map a record keyed by color id to one keyed by palette index
+ */
+function byIndex<T>(record: Record<string, T>, indices: Map<string, number>): Record<number, T> | undefined {
+  const result: Record<number, T> = {};
+  for (const [id, value] of Object.entries(record)) {
+    const index = indices.get(id);
+    if (index !== undefined) result[index] = value;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function encodeLayer(layer: GradientLayer, indices: Map<string, number>): EncodedLayer {
+  const s: EncodedStop[] = [];
+  for (const [id, index] of indices) {
+    if (!layer.selectedColors.has(id)) continue;
+    const position = round(layer.stops[id] ?? 0);
+    const end = layer.stopEnds[id];
+    s.push(end === undefined ? [index, position] : [index, position, round(end)]);
+  }
+
+  const changed = (Object.keys(DEFAULT_GRADIENT_OPTIONS) as (keyof GradientSettings)[]).filter(
+    key => JSON.stringify(layer.options[key]) !== JSON.stringify(DEFAULT_GRADIENT_OPTIONS[key])
+  );
+  const options = Object.fromEntries(changed.map(key => [key, layer.options[key]])) as Partial<GradientSettings>;
+
+  return {
+    s,
+    a: round(layer.angle),
+    ...(changed.length > 0 && { o: options }),
+    ...(byIndex(layer.easings, indices) && { e: byIndex(layer.easings, indices) }),
+    ...(byIndex(layer.hints, indices) && { h: byIndex(layer.hints, indices) }),
+    ...(layer.opacity < 100 && { p: layer.opacity }),
+    ...(layer.blendMode !== 'normal' && { b: layer.blendMode })
+  };
+}
+
+/**
+ * Build the query string for a state, keeping unrelated parameters.
+ * A null state removes the permalink parameters.
+ */
+export function createPermalinkQuery(state: PermalinkState | null, searchParams: URLSearchParams): string {
+  if (!state || state.colors.length === 0) {
+    const params: Params = Object.fromEntries(PERMALINK_PARAMS.map(key => [key, null]));
+    return createQueryString(params, searchParams);
+  }
+
+  const colors = state.colors.slice(0, MAX_COLORS);
+  const indices = new Map(colors.map((color, index) => [color.id, index]));
+  const layers = state.layers.slice(0, MAX_LAYERS);
+  const active = Math.max(0, layers.findIndex(layer => layer.id === state.activeLayerId));
+
+  const params: Params = {
+    v: PERMALINK_VERSION,
+    palette: colors.map(({ rgb }) => rgbToHex(rgb.r, rgb.g, rgb.b).slice(1)).join(''),
+    layers: toBase64Url(JSON.stringify(layers.map(layer => encodeLayer(layer, indices)))),
+    active: active > 0 ? active : null
+  };
+  return createQueryString(params, searchParams);
+}
+
+/**
+ * Build a full URL for the current page that restores a state
+ */
+export function createPermalink(state: PermalinkState, location: Location = window.location): string {
+  const query = createPermalinkQuery(state, new URLSearchParams(location.search));
+  return `${location.origin}${location.pathname}?${query}`;
+}
+
+function decodeEasing(value: unknown): Easing | null {
+  if (!value || typeof value !== 'object') return null;
+  const easing = value as Record<string, unknown>;
+  if (easing.type === 'linear') return { type: 'linear' };
+  if (easing.type === 'steps' && isNumber(easing.count)) {
+    return { type: 'steps', count: clamp(Math.round(easing.count), 2, 100) };
+  }
+  if (easing.type === 'cubic-bezier' && [easing.x1, easing.y1, easing.x2, easing.y2].every(isNumber)) {
+    const { x1, y1, x2, y2 } = easing as { x1: number; y1: number; x2: number; y2: number };
+    return { type: 'cubic-bezier', x1: clamp(x1, 0, 1), y1, x2: clamp(x2, 0, 1), y2 };
+  }
+  return null;
+}
+
+function decodeOptions(value: unknown): GradientSettings {
+  const options = { ...DEFAULT_GRADIENT_OPTIONS };
+  if (!value || typeof value !== 'object') return options;
+  const encoded = value as Record<string, unknown>;
+
+  if (encoded.type === 'linear' || encoded.type === 'radial' || encoded.type === 'conic') options.type = encoded.type;
+  if (encoded.shape === 'circle' || encoded.shape === 'ellipse') options.shape = encoded.shape;
+  if (
+    encoded.size === 'closest-side' ||
+    encoded.size === 'closest-corner' ||
+    encoded.size === 'farthest-side' ||
+    encoded.size === 'farthest-corner'
+  ) {
+    options.size = encoded.size;
+  }
+  const position = encoded.position as Record<string, unknown> | undefined;
+  if (position && isNumber(position.x) && isNumber(position.y)) {
+    options.position = { x: clamp(position.x, 0, 100), y: clamp(position.y, 0, 100) };
+  }
+  const interpolation = INTERPOLATION_SPACES.find(space => space === encoded.interpolation);
+  if (interpolation) options.interpolation = interpolation;
+  const hueInterpolation = HUE_INTERPOLATIONS.find(hue => hue === encoded.hueInterpolation);
+  if (hueInterpolation) options.hueInterpolation = hueInterpolation;
+  if (typeof encoded.repeating === 'boolean') options.repeating = encoded.repeating;
+  return options;
+}
+
+function decodeLayer(value: unknown, colors: ColorInfo[]): GradientLayer | null {
+  if (!value || typeof value !== 'object') return null;
+  const encoded = value as Record<string, unknown>;
+  if (!Array.isArray(encoded.s) || !isNumber(encoded.a)) return null;
+
+  const colorAt = (index: unknown) => (isNumber(index) ? colors[index] : undefined);
+  const selectedColors = new Set<string>();
+  const stops = getEvenStops(colors);
+  const stopEnds: Record<string, number> = {};
+  for (const stop of encoded.s) {
+    if (!Array.isArray(stop)) return null;
+    const [index, position, end] = stop as unknown[];
+    const color = colorAt(index);
+    if (!color || !isNumber(position)) return null;
+    selectedColors.add(color.id);
+    stops[color.id] = clamp(position, 0, 100);
+    if (isNumber(end)) stopEnds[color.id] = clamp(end, stops[color.id], 100);
+  }
+
+  const easings: Record<string, Easing> = {};
+  for (const [index, easing] of Object.entries((encoded.e ?? {}) as Record<string, unknown>)) {
+    const color = colorAt(Number(index));
+    const decoded = decodeEasing(easing);
+    if (color && decoded) easings[color.id] = decoded;
+  }
+  const hints: Record<string, number> = {};
+  for (const [index, hint] of Object.entries((encoded.h ?? {}) as Record<string, unknown>)) {
+    const color = colorAt(Number(index));
+    if (color && isNumber(hint)) hints[color.id] = clamp(hint, 0, 1);
+  }
+
+  return createGradientLayer(colors, {
+    selectedColors,
+    stops,
+    stopEnds,
+    angle: ((encoded.a % 360) + 360) % 360,
+    options: decodeOptions(encoded.o),
+    easings,
+    hints,
+    opacity: isNumber(encoded.p) ? clamp(Math.round(encoded.p), 0, 100) : 100,
+    blendMode: BLEND_MODES.find(mode => mode === encoded.b) ?? 'normal'
+  });
+}
+
+/**
+ * Restore the state encoded in a query string
+ * @returns null when there is no permalink, or it is malformed or from a newer version
+ */
+export function parsePermalink(searchParams: URLSearchParams): PermalinkState | null {
+  const version = Number(searchParams.get('v'));
+  const palette = searchParams.get('palette') ?? '';
+  if (version !== PERMALINK_VERSION || !/^(?:[0-9a-f]{6})+$/i.test(palette)) return null;
+
+  const colors = (palette.match(/.{6}/g) ?? []).slice(0, MAX_COLORS).map(hex => {
+    const rgb = hexToRgb(hex);
+    return createColorInfo(rgb ?? { r: 0, g: 0, b: 0 });
+  });
+
+  let encodedLayers: unknown;
+  try {
+    encodedLayers = JSON.parse(fromBase64Url(searchParams.get('layers') ?? ''));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(encodedLayers)) return null;
+
+  const layers = encodedLayers.slice(0, MAX_LAYERS).map(layer => decodeLayer(layer, colors));
+  if (layers.length === 0 || layers.some(layer => layer === null)) return null;
+  const validLayers = layers as GradientLayer[];
+
+  const active = clamp(Math.round(Number(searchParams.get('active')) || 0), 0, validLayers.length - 1);
+  return { colors, layers: validLayers, activeLayerId: validLayers[active].id };
+}
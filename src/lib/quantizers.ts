@@ -0,0 +1,306 @@
+/**
+ * Color quantization algorithms
+ * Every quantizer reduces a list of pixels to weighted color buckets.
+ * Pixels are plain 3-channel points so the same algorithms run in sRGB,
+ * OKLab or CIELAB; the caller converts to and from the working space.
+ */
+
+import { euclideanDistance, type Vec3 } from './colorSpace';
+
+/**
+ * A quantization bucket: its representative color and pixel population
+ */
+export interface ColorBucket {
+  color: Vec3;
+  count: number;
+}
+
+export interface QuantizerOptions {
+  /** Seed for randomized algorithms; omit for non-deterministic output */
+  seed?: number;
+  /** Color difference metric of the working space (default: Euclidean) */
+  distance?: (c1: Vec3, c2: Vec3) => number;
+  /** Colors that must stay in the palette; new buckets are placed away from them */
+  fixed?: Vec3[];
+}
+
+/**
+ * Reduce pixels to at most colorCount weighted buckets.
+ * Fixed colors come first, unchanged, followed by the new buckets.
+ */
+export type Quantizer = (
+  pixels: Vec3[],
+  colorCount: number,
+  options: QuantizerOptions
+) => ColorBucket[];
+
+export type QuantizerName = 'median-cut' | 'k-means';
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Median cut: split the busiest box until there are colorCount buckets or
+ * every box holds a single color. Fixed colors are cut for as well; each one
+ * claims its nearest bucket so the new buckets cover the rest of the image.
+ * Buckets that no pixel is nearest to are dropped, so every bucket returned
+ * (other than the fixed ones) holds at least one pixel.
+ */
+const medianCutQuantizer: Quantizer = (pixels, colorCount, { distance = euclideanDistance, fixed = [] }) => {
+  const buckets = medianCut(pixels, colorCount + fixed.length);
+
+  fixed.forEach(color => {
+    const nearest = nearestIndex(color, buckets.map(bucket => bucket.color), distance);
+    if (nearest !== -1) buckets.splice(nearest, 1);
+  });
+
+  const centroids = [...fixed, ...buckets.slice(0, colorCount).map(bucket => bucket.color)];
+  const counts = new Array<number>(centroids.length).fill(0);
+  pixels.forEach(pixel => {
+    const nearest = nearestIndex(pixel, centroids, distance);
+    if (nearest !== -1) counts[nearest]++;
+  });
+
+  return centroids
+    .map((color, k) => ({ color, count: counts[k] }))
+    .filter((bucket, k) => k < fixed.length || bucket.count > 0);
+};
+
+/**
+ * K-means with k-means++ seeding. Always returns exactly colorCount buckets.
+ * Pixels are assigned with the working space's distance metric; centroids
+ * are the arithmetic mean of their members. Fixed colors take part in the
+ * assignment but never move, so they absorb the pixels closest to them.
+ */
+const kMeansQuantizer: Quantizer = (pixels, colorCount, { seed, distance = euclideanDistance, fixed = [] }) => {
+  const maxIterations = 20;
+  const random = createRandom(seed);
+
+  if (pixels.length === 0) {
+    return [
+      ...fixed.map(color => ({ color, count: 0 })),
+      ...Array.from({ length: colorCount }, () => ({ color: averageColor([]), count: 0 }))
+    ];
+  }
+
+  const centroids = [...fixed, ...seedCentroids(pixels, colorCount, random, distance, fixed)];
+  const assignments = new Int32Array(pixels.length).fill(-1);
+  const counts = new Array<number>(centroids.length).fill(0);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Assignment step
+    let changed = 0;
+    pixels.forEach((pixel, i) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, k) => {
+        const d = distance(pixel, centroid);
+        if (d < nearestDistance) {
+          nearestDistance = d;
+          nearest = k;
+        }
+      });
+      if (assignments[i] !== nearest) {
+        assignments[i] = nearest;
+        changed++;
+      }
+    });
+
+    // Update step
+    const sums = centroids.map((): Vec3 => [0, 0, 0]);
+    counts.fill(0);
+    pixels.forEach((pixel, i) => {
+      const sum = sums[assignments[i]];
+      sum[0] += pixel[0];
+      sum[1] += pixel[1];
+      sum[2] += pixel[2];
+      counts[assignments[i]]++;
+    });
+
+    sums.forEach((sum, k) => {
+      if (k < fixed.length) return;
+      if (counts[k] > 0) {
+        centroids[k] = [sum[0] / counts[k], sum[1] / counts[k], sum[2] / counts[k]];
+      } else {
+        // Re-seed empty clusters on a random pixel so we keep colorCount centroids
+        centroids[k] = [...pixels[Math.floor(random() * pixels.length)]];
+      }
+    });
+
+    if (changed === 0) break;
+  }
+
+  return centroids.map((centroid, k) => ({ color: centroid, count: counts[k] }));
+};
+
+/**
+ * k-means++ seeding: each new centroid is drawn with probability
+ * proportional to its squared distance from the nearest existing one.
+ * Fixed colors count as existing centroids, so seeds land away from them.
+ */
+function seedCentroids(
+  pixels: Vec3[],
+  colorCount: number,
+  random: () => number,
+  distance: (c1: Vec3, c2: Vec3) => number,
+  fixed: Vec3[]
+): Vec3[] {
+  const centroids: Vec3[] = [];
+  const distances = new Float64Array(pixels.length).fill(Infinity);
+  let total = Infinity;
+
+  const addCentroid = (centroid: Vec3) => {
+    total = 0;
+    pixels.forEach((pixel, i) => {
+      const d = distance(pixel, centroid);
+      distances[i] = Math.min(distances[i], d * d);
+      total += distances[i];
+    });
+  };
+  fixed.forEach(addCentroid);
+
+  while (centroids.length < colorCount) {
+    if (centroids.length > 0) addCentroid(centroids[centroids.length - 1]);
+
+    // Nothing to measure against yet, or every pixel already coincides with
+    // a centroid; fall back to uniform picks
+    if (!Number.isFinite(total) || total === 0) {
+      centroids.push([...pixels[Math.floor(random() * pixels.length)]]);
+      continue;
+    }
+
+    let target = random() * total;
+    let chosen = pixels.length - 1;
+    for (let i = 0; i < pixels.length; i++) {
+      target -= distances[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centroids.push([...pixels[chosen]]);
+  }
+
+  return centroids;
+}
+
+/**
+ * Available quantizers, keyed by name
+ */
+export const quantizers: Record<QuantizerName, Quantizer> = {
+  'median-cut': medianCutQuantizer,
+  'k-means': kMeansQuantizer
+};
+
+/**
+ * A median cut box: its pixels and the channel with the greatest range
+ */
+interface Box {
+  pixels: Vec3[];
+  channel: number;
+  range: number;
+}
+
+function createBox(pixels: Vec3[]): Box {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  pixels.forEach(pixel => {
+    for (let c = 0; c < 3; c++) {
+      min[c] = Math.min(min[c], pixel[c]);
+      max[c] = Math.max(max[c], pixel[c]);
+    }
+  });
+
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+  const range = Math.max(...ranges);
+  return { pixels, channel: ranges.indexOf(range), range };
+}
+
+/**
+ * Median cut algorithm for color quantization.
+ * Repeatedly splits the box with the largest range times population at the
+ * median of its widest channel, moved to the nearest change in value so a
+ * color is never spread over two boxes. Sorts the pixels in place.
+ */
+function medianCut(pixels: Vec3[], count: number): ColorBucket[] {
+  if (pixels.length === 0 || count === 0) return [];
+
+  const boxes = [createBox(pixels)];
+  while (boxes.length < count) {
+    let index = -1;
+    let best = 0;
+    boxes.forEach((box, k) => {
+      const score = box.range * box.pixels.length;
+      if (score > best) {
+        best = score;
+        index = k;
+      }
+    });
+
+    // Every box holds a single color
+    if (index === -1) break;
+
+    const { pixels: members, channel } = boxes[index];
+    members.sort((a, b) => a[channel] - b[channel]);
+
+    // The box has a range, so some neighbors differ; take the split closest to the median
+    const mid = Math.floor(members.length / 2);
+    const isBoundary = (i: number) =>
+      i > 0 && i < members.length && members[i - 1][channel] !== members[i][channel];
+    let offset = 0;
+    while (!isBoundary(mid - offset) && !isBoundary(mid + offset)) offset++;
+    const split = isBoundary(mid - offset) ? mid - offset : mid + offset;
+
+    boxes.splice(index, 1, createBox(members.slice(0, split)), createBox(members.slice(split)));
+  }
+
+  return boxes.map(box => ({ color: averageColor(box.pixels), count: box.pixels.length }));
+}
+
+/**
+ * Index of the centroid nearest to a point, or -1 when there are none
+ */
+function nearestIndex(point: Vec3, centroids: Vec3[], distance: (c1: Vec3, c2: Vec3) => number): number {
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  centroids.forEach((centroid, k) => {
+    const d = distance(point, centroid);
+    if (d < nearestDistance) {
+      nearestDistance = d;
+      nearest = k;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Calculate average color from pixels
+ */
+function averageColor(pixels: Vec3[]): Vec3 {
+  if (pixels.length === 0) {
+    return [0, 0, 0];
+  }
+
+  const sum: Vec3 = [0, 0, 0];
+  pixels.forEach(pixel => {
+    sum[0] += pixel[0];
+    sum[1] += pixel[1];
+    sum[2] += pixel[2];
+  });
+
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+}
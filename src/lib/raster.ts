@@ -0,0 +1,198 @@
+/**
+ * Raster export
+ * Renders the gradient layers pixel by pixel with the same geometry and
+ * color math as the CSS output, optionally dithered, and encodes the result
+ * as PNG or WebP
+ */
+
+import type { ColorInfo } from './colorExtractor';
+import { createLayerRepeater, createLayerSampler, type GradientLayer } from './gradient';
+import { getLinearGradientLine, getRadialShapeGeometry } from './gradientGeometry';
+
+export type RasterFormat = 'png' | 'webp';
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export interface RasterOptions {
+  width: number;
+  height: number;
+  /** Add sub-pixel noise so smooth ramps don't show 8-bit bands */
+  dither: boolean;
+}
+
+export interface SizePreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SIZE_PRESETS: SizePreset[] = [
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: '4K UHD', width: 3840, height: 2160 },
+  { label: 'Open Graph', width: 1200, height: 630 },
+  { label: 'Square post', width: 1080, height: 1080 },
+  { label: 'Story', width: 1080, height: 1920 },
+  { label: 'iPhone wallpaper', width: 1290, height: 2796 },
+  { label: 'Android wallpaper', width: 1440, height: 3120 },
+  { label: 'Desktop 1440p', width: 2560, height: 1440 }
+];
+
+/**
+ * Largest rendered edge, in pixels. Rendering runs on the main thread into
+ * several full-size buffers; 4096² already takes ~67 MB per buffer.
+ */
+export const MAX_RASTER_SIZE = 4096;
+
+/** Encoder quality for lossy formats (0-1) */
+const LOSSY_QUALITY = 0.92;
+
+/** 8×8 Bayer matrix, normalized to offsets in (-0.5, 0.5) */
+const BAYER_8 = [
+  0, 32, 8, 40, 2, 34, 10, 42, 48, 16, 56, 24, 50, 18, 58, 26, 12, 44, 4, 36, 14, 46, 6, 38, 60, 28, 52, 20, 62, 30, 54,
+  22, 3, 35, 11, 43, 1, 33, 9, 41, 51, 19, 59, 27, 49, 17, 57, 25, 15, 47, 7, 39, 13, 45, 5, 37, 63, 31, 55, 23, 61, 29,
+  53, 21
+].map(value => (value + 0.5) / 64 - 0.5);
+
+/**
+ * Position (0-100) along the gradient for each pixel center, matching the
+ * CSS geometry of the layer's gradient type
+ */
+function createPositionMapper(layer: GradientLayer, width: number, height: number): (x: number, y: number) => number {
+  const { type, position } = layer.options;
+
+  if (type === 'radial') {
+    const { cx, cy, rx, ry } = getRadialShapeGeometry(layer.options, width, height);
+    // A zero-sized ending shape paints everything in the last color
+    if (rx === 0 || ry === 0) return () => Infinity;
+    return (x, y) => Math.hypot((x - cx) / rx, (y - cy) / ry) * 100;
+  }
+
+  if (type === 'conic') {
+    const cx = (position.x / 100) * width;
+    const cy = (position.y / 100) * height;
+    return (x, y) => {
+      // 0deg points up and angles turn clockwise, starting at the `from` angle
+      const degrees = (Math.atan2(x - cx, cy - y) * 180) / Math.PI - layer.angle;
+      return (((degrees % 360) + 360) % 360) / 3.6;
+    };
+  }
+
+  const { x1, y1, x2, y2 } = getLinearGradientLine(layer.angle, width, height);
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy || 1;
+  return (x, y) => (((x - x1) * dx + (y - y1) * dy) / lengthSquared) * 100;
+}
+
+/**
+ * Render one layer as opaque RGBA pixels
+ */
+function renderLayer(layer: GradientLayer, colors: ColorInfo[], { width, height, dither }: RasterOptions): ImageData | null {
+  const sample = createLayerSampler(layer, colors);
+  if (!sample) return null;
+
+  const toPosition = createPositionMapper(layer, width, height);
+  const repeat = createLayerRepeater(layer, colors);
+
+  // Color ramp over 0-100 with enough entries for every pixel on the longest
+  // gradient line; positions outside it are clamped to the end colors
+  const rampSize = Math.max(1024, Math.ceil(Math.hypot(width, height) * 2));
+  const ramp = new Float32Array((rampSize + 1) * 3);
+  for (let i = 0; i <= rampSize; i++) {
+    ramp.set(sample((i / rampSize) * 100), i * 3);
+  }
+
+  const image = new ImageData(width, height);
+  const data = image.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = repeat(toPosition(x + 0.5, y + 0.5));
+      const index = Math.round(Math.min(100, Math.max(0, position)) * (rampSize / 100)) * 3;
+      const noise = dither ? BAYER_8[(y & 7) * 8 + (x & 7)] : 0;
+      const offset = (y * width + x) * 4;
+      data[offset] = ramp[index] + noise;
+      data[offset + 1] = ramp[index + 1] + noise;
+      data[offset + 2] = ramp[index + 2] + noise;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return image;
+}
+
+/**
+ * Render the gradient layers onto a canvas. Layers are painted bottom first
+ * with their opacity and blend mode, as in the CSS background stack.
+ */
+export function renderGradientCanvas(
+  layers: GradientLayer[],
+  colors: ColorInfo[],
+  options: RasterOptions
+): HTMLCanvasElement {
+  const { width, height } = options;
+  if (width > MAX_RASTER_SIZE || height > MAX_RASTER_SIZE) {
+    throw new Error(`Images are limited to ${MAX_RASTER_SIZE}px per side`);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const layerCanvas = document.createElement('canvas');
+  layerCanvas.width = width;
+  layerCanvas.height = height;
+  const layerCtx = layerCanvas.getContext('2d');
+  if (!layerCtx) throw new Error('Could not get canvas context');
+
+  [...layers].reverse().forEach(layer => {
+    const image = renderLayer(layer, colors, options);
+    if (!image) return;
+    layerCtx.putImageData(image, 0, 0);
+    ctx.globalAlpha = Math.max(0, Math.min(100, layer.opacity)) / 100;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.drawImage(layerCanvas, 0, 0);
+  });
+
+  return canvas;
+}
+
+/**
+ * Whether this browser's canvas can encode a format (PNG always can)
+ */
+export function supportsRasterFormat(format: RasterFormat): boolean {
+  if (typeof document === 'undefined') return false;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL(RASTER_MIME_TYPES[format]).startsWith(`data:${RASTER_MIME_TYPES[format]}`);
+}
+
+/**
+ * Render and encode the gradient as an image file
+ * @throws Error when the browser can't encode the requested format
+ */
+export function renderGradientImage(
+  layers: GradientLayer[],
+  colors: ColorInfo[],
+  format: RasterFormat,
+  options: RasterOptions
+): Promise<Blob> {
+  const canvas = renderGradientCanvas(layers, colors, options);
+  const type = RASTER_MIME_TYPES[format];
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        // Browsers silently fall back to PNG for formats they can't encode
+        if (blob && blob.type === type) resolve(blob);
+        else reject(new Error(`This browser can't encode ${format.toUpperCase()} images`));
+      },
+      type,
+      format === 'png' ? undefined : LOSSY_QUALITY
+    );
+  });
+}
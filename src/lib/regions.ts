@@ -0,0 +1,69 @@
+/**
+ * Region-of-interest selection for color extraction
+ * Regions use normalized image coordinates (0-1) so they survive
+ * downscaling and stay valid when the palette is re-extracted
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Include regions restrict sampling to their area; exclude regions remove theirs */
+export type RegionMode = 'include' | 'exclude';
+
+export type Region =
+  | { id: string; mode: RegionMode; shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { id: string; mode: RegionMode; shape: 'lasso'; points: Point[] };
+
+/**
+ * Check whether a normalized point lies inside a region
+ */
+export function isPointInRegion(point: Point, region: Region): boolean {
+  if (region.shape === 'rect') {
+    return (
+      point.x >= region.x &&
+      point.x <= region.x + region.width &&
+      point.y >= region.y &&
+      point.y <= region.y + region.height
+    );
+  }
+
+  // Ray casting: count edge crossings of a horizontal ray from the point
+  const { points } = region;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Rasterize regions into a per-pixel sampling mask.
+ * A pixel is sampled when it lies in any include region (or there are none)
+ * and in no exclude region.
+ * @returns One byte per pixel (1 = sample), or null when no regions are set
+ */
+export function buildRegionMask(regions: Region[], width: number, height: number): Uint8Array | null {
+  if (regions.length === 0) return null;
+
+  const includes = regions.filter(region => region.mode === 'include');
+  const excludes = regions.filter(region => region.mode === 'exclude');
+  const mask = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Sample at the pixel center
+      const point = { x: (x + 0.5) / width, y: (y + 0.5) / height };
+      const included = includes.length === 0 || includes.some(region => isPointInRegion(point, region));
+      const excluded = excludes.some(region => isPointInRegion(point, region));
+      mask[y * width + x] = included && !excluded ? 1 : 0;
+    }
+  }
+
+  return mask;
+}
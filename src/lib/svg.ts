@@ -0,0 +1,167 @@
+/**
+ * SVG export
+ * Renders the gradient layers as an SVG image: `<linearGradient>` and
+ * `<radialGradient>` definitions in user space so they match the CSS
+ * geometry at any size. SVG has no conic gradient, so conic layers are
+ * drawn as thin wedges.
+ */
+
+import { type ColorInfo, rgbToHex } from './colorExtractor';
+import {
+  createLayerRepeater,
+  createLayerSampler,
+  type GradientLayer,
+  type ResolvedStop,
+  resolveLayerStops
+} from './gradient';
+import { getLinearGradientLine, getRadialShapeGeometry } from './gradientGeometry';
+
+export interface SvgExportOptions {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_SVG_OPTIONS: SvgExportOptions = {
+  width: 1200,
+  height: 630
+};
+
+/** Wedges per conic layer; one per degree hides the seams at export sizes */
+const CONIC_WEDGES = 360;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatStops = (stops: ResolvedStop[]) =>
+  stops
+    .map(({ color, offset }) => `      <stop offset="${round(offset * 100)}%" stop-color="${rgbToHex(color.r, color.g, color.b)}"/>`)
+    .join('\n');
+
+/**
+ * Fit the gradient vector to the stops of a repeating gradient, since SVG
+ * repeats the 0-1 vector while CSS repeats the first-to-last stop range
+ */
+function getRepeatRange(layer: GradientLayer, stops: ResolvedStop[]): { start: number; end: number } {
+  const first = stops[0].offset;
+  const last = stops[stops.length - 1].offset;
+  return layer.options.repeating && last > first ? { start: first, end: last } : { start: 0, end: 1 };
+}
+
+const remapStops = (stops: ResolvedStop[], { start, end }: { start: number; end: number }) =>
+  stops.map(stop => ({ ...stop, offset: (stop.offset - start) / (end - start) }));
+
+/**
+ * Gradient definition and painted shape for a linear or radial layer
+ */
+function renderGradientLayer(
+  layer: GradientLayer,
+  stops: ResolvedStop[],
+  id: string,
+  { width, height }: SvgExportOptions
+): { defs: string; body: string } {
+  const range = getRepeatRange(layer, stops);
+  const spread = layer.options.repeating ? ' spreadMethod="repeat"' : '';
+  const stopList = formatStops(remapStops(stops, range));
+
+  if (layer.options.type === 'radial') {
+    const { cx, cy, rx, ry } = getRadialShapeGeometry(layer.options, width, height);
+    const focal = range.start > 0 ? ` fr="${round(rx * range.start)}"` : '';
+    // A circle in user space, stretched into the ellipse around its center
+    const transform =
+      rx > 0 && rx !== ry
+        ? ` gradientTransform="translate(${round(cx)} ${round(cy)}) scale(1 ${round(ry / rx)}) translate(${round(-cx)} ${round(-cy)})"`
+        : '';
+    return {
+      defs: [
+        `    <radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${round(cx)}" cy="${round(cy)}" r="${round(rx * range.end)}"${focal}${transform}${spread}>`,
+        stopList,
+        '    </radialGradient>'
+      ].join('\n'),
+      body: `<rect width="${width}" height="${height}" fill="url(#${id})"`
+    };
+  }
+
+  const { x1, y1, x2, y2 } = getLinearGradientLine(layer.angle, width, height);
+  const at = (t: number) => ({ x: x1 + (x2 - x1) * t, y: y1 + (y2 - y1) * t });
+  const start = at(range.start);
+  const end = at(range.end);
+  return {
+    defs: [
+      `    <linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}"${spread}>`,
+      stopList,
+      '    </linearGradient>'
+    ].join('\n'),
+    body: `<rect width="${width}" height="${height}" fill="url(#${id})"`
+  };
+}
+
+/**
+ * Conic layer as wedges around the center, each filled with the color the
+ * gradient has at its middle angle
+ */
+function renderConicLayer(layer: GradientLayer, colors: ColorInfo[], { width, height }: SvgExportOptions): string {
+  const cx = (layer.options.position.x / 100) * width;
+  const cy = (layer.options.position.y / 100) * height;
+  const radius = Math.hypot(Math.max(cx, width - cx), Math.max(cy, height - cy)) + 1;
+  const point = (degrees: number) => {
+    const radians = ((layer.angle + degrees) * Math.PI) / 180;
+    return `${round(cx + radius * Math.sin(radians))} ${round(cy - radius * Math.cos(radians))}`;
+  };
+
+  const sample = createLayerSampler(layer, colors);
+  if (!sample) return '';
+  const repeat = createLayerRepeater(layer, colors);
+
+  const wedges = Array.from({ length: CONIC_WEDGES }, (_, i) => {
+    const from = (i * 360) / CONIC_WEDGES;
+    const to = ((i + 1) * 360) / CONIC_WEDGES;
+    const [r, g, b] = sample(repeat(((i + 0.5) / CONIC_WEDGES) * 100));
+    const fill = rgbToHex(r, g, b);
+    // Same-colored stroke closes the hairline gaps between neighbouring wedges
+    return `    <path d="M${round(cx)} ${round(cy)} L${point(from)} A${round(radius)} ${round(radius)} 0 0 1 ${point(to)} Z" fill="${fill}" stroke="${fill}" stroke-width="0.5"/>`;
+  });
+
+  return wedges.join('\n');
+}
+
+/**
+ * Render the gradient layers as a standalone SVG document.
+ * Layers are painted bottom first; opacity and blend modes carry over.
+ */
+export function generateSVG(
+  layers: GradientLayer[],
+  colors: ColorInfo[],
+  options: SvgExportOptions = DEFAULT_SVG_OPTIONS
+): string {
+  const { width, height } = options;
+  const defs: string[] = [`    <clipPath id="frame"><rect width="${width}" height="${height}"/></clipPath>`];
+  const body: string[] = [];
+
+  [...layers].reverse().forEach((layer, index) => {
+    const stops = resolveLayerStops(layer, colors);
+    if (stops.length === 0) return;
+
+    const attributes = [
+      layer.opacity < 100 ? ` opacity="${layer.opacity / 100}"` : '',
+      layer.blendMode !== 'normal' ? ` style="mix-blend-mode: ${layer.blendMode}"` : ''
+    ].join('');
+
+    if (layer.options.type === 'conic') {
+      body.push(`  <g clip-path="url(#frame)"${attributes}>`, renderConicLayer(layer, colors, options), '  </g>');
+      return;
+    }
+
+    const rendered = renderGradientLayer(layer, stops, `gradient-${index + 1}`, options);
+    defs.push(rendered.defs);
+    body.push(`  ${rendered.body}${attributes}/>`);
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '  <defs>',
+    ...defs,
+    '  </defs>',
+    ...body,
+    '</svg>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,176 @@
+/**
+ * Tailwind CSS theme export
+ * Turns the palette into Tailwind colors, each with a 50-950 tint/shade
+ * scale built in OKLCH, and the gradient into a background image. Output is
+ * a Tailwind v3 JS config or Tailwind v4 `@theme` CSS.
+ */
+
+import { type ColorInfo, type RGB, rgbToHex } from './colorExtractor';
+import { fromPolar, oklabToRgb, rgbToOklab, toPolar, type Vec3 } from './colorSpace';
+import { type GradientLayer, generateBackground } from './gradient';
+import { toTokenName } from './tokens';
+
+export const TAILWIND_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type TailwindShade = (typeof TAILWIND_SHADES)[number];
+
+export type TailwindVersion = 'v3' | 'v4';
+
+export interface TailwindExportOptions {
+  /** Color names are the prefix plus the swatch number, e.g. `prism-1` */
+  prefix: string;
+  /** Add a 50-950 scale to every color */
+  scales: boolean;
+}
+
+export const DEFAULT_TAILWIND_OPTIONS: TailwindExportOptions = {
+  prefix: 'prism',
+  scales: true
+};
+
+/** OKLCH lightness of each shade, close to Tailwind's default palette */
+const SHADE_LIGHTNESS: Record<TailwindShade, number> = {
+  50: 0.971,
+  100: 0.936,
+  200: 0.885,
+  300: 0.808,
+  400: 0.704,
+  500: 0.637,
+  600: 0.577,
+  700: 0.505,
+  800: 0.444,
+  900: 0.396,
+  950: 0.258
+};
+
+/**
+ * Convert OKLCH to sRGB, lowering chroma until the color fits the gamut
+ * so the hue doesn't shift the way per-channel clipping would
+ */
+function oklchToRgb([L, C, h]: Vec3): RGB {
+  const fits = (chroma: number) => {
+    const lab = fromPolar([L, chroma, h]);
+    const [L2, a2, b2] = rgbToOklab(oklabToRgb(lab));
+    return Math.hypot(L2 - lab[0], a2 - lab[1], b2 - lab[2]) < 0.002;
+  };
+
+  if (fits(C)) return oklabToRgb(fromPolar([L, C, h]));
+
+  let lo = 0;
+  let hi = C;
+  for (let i = 0; i < 16; i++) {
+    const mid = (lo + hi) / 2;
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+  return oklabToRgb(fromPolar([L, lo, h]));
+}
+
+/**
+ * Build a 50-950 scale around a color. The color itself becomes the shade
+ * closest in lightness; the others keep its hue, with chroma tapering off
+ * towards white and black.
+ */
+export function generateShadeScale(rgb: RGB): Record<TailwindShade, string> {
+  const [baseL, baseC, hue] = toPolar(rgbToOklab(rgb));
+  const anchor = TAILWIND_SHADES.reduce((best, shade) =>
+    Math.abs(SHADE_LIGHTNESS[shade] - baseL) < Math.abs(SHADE_LIGHTNESS[best] - baseL) ? shade : best
+  );
+
+  const scale = {} as Record<TailwindShade, string>;
+  TAILWIND_SHADES.forEach(shade => {
+    if (shade === anchor) {
+      scale[shade] = rgbToHex(rgb.r, rgb.g, rgb.b);
+      return;
+    }
+    const L = SHADE_LIGHTNESS[shade];
+    const taper = L > baseL ? (1 - L) / Math.max(1e-6, 1 - baseL) : L / Math.max(1e-6, baseL);
+    const { r, g, b } = oklchToRgb([L, baseC * Math.min(1, taper), hue]);
+    scale[shade] = rgbToHex(r, g, b);
+  });
+  return scale;
+}
+
+/**
+ * Name of every color, by color id, and of the gradient
+ */
+function getNames(colors: ColorInfo[], prefix: string) {
+  const base = toTokenName(prefix) || DEFAULT_TAILWIND_OPTIONS.prefix;
+  return {
+    colors: colors.map((color, index) => ({ color, name: `${base}-${index + 1}` })),
+    gradient: `${base}-gradient`
+  };
+}
+
+/**
+ * Tailwind v3 `tailwind.config.js` extending the theme's colors and background images
+ */
+export function generateTailwindConfig(
+  colors: ColorInfo[],
+  layers: GradientLayer[],
+  options: TailwindExportOptions = DEFAULT_TAILWIND_OPTIONS
+): string {
+  const names = getNames(colors, options.prefix);
+  const gradient = generateBackground(layers, colors).gradients.join(', ');
+
+  const colorEntries = names.colors.map(({ color, name }) => {
+    if (!options.scales) return `        '${name}': '${color.hex}',`;
+    const scale = generateShadeScale(color.rgb);
+    return [
+      `        '${name}': {`,
+      `          DEFAULT: '${color.hex}',`,
+      ...TAILWIND_SHADES.map(shade => `          ${shade}: '${scale[shade]}',`),
+      '        },'
+    ].join('\n');
+  });
+
+  return [
+    "/** @type {import('tailwindcss').Config} */",
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    ...colorEntries,
+    '      },',
+    ...(gradient
+      ? ['      backgroundImage: {', `        '${names.gradient}': '${gradient}',`, '      },']
+      : []),
+    '    },',
+    '  },',
+    '};',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Tailwind v4 CSS: color variables in `@theme`, plus a `bg-*` utility for the
+ * gradient (v4 has no theme namespace for background images)
+ */
+export function generateTailwindTheme(
+  colors: ColorInfo[],
+  layers: GradientLayer[],
+  options: TailwindExportOptions = DEFAULT_TAILWIND_OPTIONS
+): string {
+  const names = getNames(colors, options.prefix);
+  const gradients = generateBackground(layers, colors).gradients;
+
+  const variables = names.colors.flatMap(({ color, name }) => {
+    const base = `  --color-${name}: ${color.hex};`;
+    if (!options.scales) return [base];
+    const scale = generateShadeScale(color.rgb);
+    return [base, ...TAILWIND_SHADES.map(shade => `  --color-${name}-${shade}: ${scale[shade]};`)];
+  });
+
+  const lines = ['@import "tailwindcss";', '', '@theme {', ...variables, '}', ''];
+  if (gradients.length > 0) {
+    lines.push(
+      `@utility bg-${names.gradient} {`,
+      gradients.length > 1
+        ? `  background-image:\n${gradients.map(g => `    ${g}`).join(',\n')};`
+        : `  background-image: ${gradients[0]};`,
+      '}',
+      ''
+    );
+  }
+  return lines.join('\n');
+}
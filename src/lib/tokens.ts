@@ -0,0 +1,167 @@
+/**
+ * Design token export
+ * Serializes the palette and gradient layers as Design Tokens Community Group
+ * (DTCG) JSON, or as the legacy Style Dictionary format with plain
+ * `value`/`type` keys
+ */
+
+import { type ColorInfo, rgbToHex } from './colorExtractor';
+import { type GradientLayer, generateLayerGradient, getLayerColorStops, resolveLayerStops } from './gradient';
+
+export type TokenFormat = 'dtcg' | 'style-dictionary';
+
+/**
+ * Names used for the exported tokens
+ */
+export interface TokenNames {
+  /** Top-level group holding every token */
+  group: string;
+  /** Color token names by color id; colors without one get a numbered default */
+  colors: Record<string, string>;
+  /** Base name of the gradient tokens, numbered when there are several layers */
+  gradient: string;
+}
+
+export const DEFAULT_TOKEN_NAMES: TokenNames = {
+  group: 'prism',
+  colors: {},
+  gradient: 'gradient'
+};
+
+/** Vendor key for settings DTCG has no field for (angle, gradient type) */
+const EXTENSION_KEY = 'com.prismextract';
+
+type TokenTree = { [key: string]: unknown };
+
+/**
+ * Turn free text into a valid token name: lowercase words joined by dashes.
+ * DTCG reserves `{`, `}` and `.` for references and `$` for its own keys.
+ */
+export function toTokenName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^[-_]+|[-_]+$/g, '');
+}
+
+/**
+ * Default name of the color at a palette index
+ */
+export function getDefaultColorName(index: number): string {
+  return `color-${index + 1}`;
+}
+
+/**
+ * Resolve a unique token name for every color, by color id
+ */
+export function getColorTokenNames(colors: ColorInfo[], names: TokenNames): Record<string, string> {
+  const used = new Set<string>();
+  return Object.fromEntries(
+    colors.map((color, index) => {
+      const base = toTokenName(names.colors[color.id] ?? '') || getDefaultColorName(index);
+      let name = base;
+      for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+      used.add(name);
+      return [color.id, name];
+    })
+  );
+}
+
+/**
+ * Build the token tree for a palette and its gradient layers
+ */
+export function generateDesignTokens(
+  colors: ColorInfo[],
+  layers: GradientLayer[],
+  names: TokenNames = DEFAULT_TOKEN_NAMES,
+  format: TokenFormat = 'dtcg'
+): TokenTree {
+  const group = toTokenName(names.group) || DEFAULT_TOKEN_NAMES.group;
+  const gradientName = toTokenName(names.gradient) || DEFAULT_TOKEN_NAMES.gradient;
+  const colorNames = getColorTokenNames(colors, names);
+  const isDtcg = format === 'dtcg';
+
+  const colorTokens = Object.fromEntries(
+    colors.map(color => {
+      // Imported and added colors have no population to describe
+      const description = color.count > 0 ? `${color.percentage.toFixed(1)}% of the image` : undefined;
+      const token = isDtcg
+        ? { $type: 'color', $value: color.hex, ...(description ? { $description: description } : {}) }
+        : { value: color.hex, type: 'color', ...(description ? { comment: description } : {}) };
+      return [colorNames[color.id], token];
+    })
+  );
+
+  const gradientTokens: TokenTree = {};
+  layers.forEach((layer, index) => {
+    const name = layers.length > 1 ? `${gradientName}-${index + 1}` : gradientName;
+    if (isDtcg) {
+      const token = createGradientToken(layer, colors, `${group}.color`, colorNames);
+      if (token) gradientTokens[name] = token;
+    } else {
+      const css = generateLayerGradient(layer, colors);
+      if (css) gradientTokens[name] = { value: css, type: 'gradient' };
+    }
+  });
+
+  return {
+    [group]: {
+      color: colorTokens,
+      ...(Object.keys(gradientTokens).length > 0 ? { gradient: gradientTokens } : {})
+    }
+  };
+}
+
+/**
+ * DTCG gradient token from the resolved stops the SVG and native exports use,
+ * so easing, hints and stop ends are baked in; positions are 0-1. Stops in a
+ * palette color reference its token, others carry the color itself. Translucent
+ * layers can't use references, so all their stops carry the color.
+ */
+function createGradientToken(
+  layer: GradientLayer,
+  colors: ColorInfo[],
+  colorPath: string,
+  colorNames: Record<string, string>
+): TokenTree | null {
+  const stops = resolveLayerStops(layer, colors);
+  if (stops.length === 0) return null;
+
+  const references = new Map(
+    getLayerColorStops(layer, colors).map(({ color }) => [color.hex, `{${colorPath}.${colorNames[color.id]}}`])
+  );
+  const alpha = Math.round((Math.max(0, layer.opacity) / 100) * 255).toString(16).padStart(2, '0');
+  const toColor = (hex: string) => (layer.opacity >= 100 ? (references.get(hex) ?? hex) : `${hex}${alpha}`);
+
+  const value = stops.map(({ color, offset }) => ({
+    color: toColor(rgbToHex(color.r, color.g, color.b)),
+    position: Math.round(offset * 10000) / 10000
+  }));
+
+  const { type, shape, size, position, interpolation, hueInterpolation, repeating } = layer.options;
+  return {
+    $type: 'gradient',
+    $value: value,
+    $extensions: {
+      [EXTENSION_KEY]: {
+        type,
+        ...(type === 'radial' ? { shape, size } : { angle: layer.angle }),
+        ...(type === 'linear' ? {} : { position }),
+        interpolation,
+        hueInterpolation,
+        repeating,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode,
+        css: generateLayerGradient(layer, colors)
+      }
+    }
+  };
+}
+
+/**
+ * Serialize tokens as pretty-printed JSON, ready for a `.tokens.json` file
+ */
+export function formatDesignTokens(tokens: TokenTree): string {
+  return `${JSON.stringify(tokens, null, 2)}\n`;
+}
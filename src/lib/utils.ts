@@ -6,7 +6,7 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export type Params = Partial<
-  Record<keyof URLSearchParams, string | number | null | undefined>
+  Record<string, string | number | null | undefined>
 >;
 
 export function createQueryString(
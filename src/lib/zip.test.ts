@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('writes local headers, a central directory and an end record that agree', () => {
+    const entries = [
+      { name: 'Swatches.json', data: encoder.encode('[{"name":"Test"}]') },
+      { name: 'notes/ü.txt', data: encoder.encode('hello') }
+    ];
+    const zip = createZip(entries);
+    const view = new DataView(zip.buffer);
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(entries.length);
+    let central = view.getUint32(end + 16, true);
+    expect(central + view.getUint32(end + 12, true)).toBe(end);
+
+    entries.forEach(entry => {
+      const name = encoder.encode(entry.name);
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint32(central + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint16(central + 28, true)).toBe(name.length);
+      expect(zip.slice(central + 46, central + 46 + name.length)).toEqual(name);
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 8, true)).toBe(0); // stored
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(local + 18, true)).toBe(entry.data.length);
+      const start = local + 30 + view.getUint16(local + 26, true);
+      expect(zip.slice(start, start + entry.data.length)).toEqual(entry.data);
+
+      central += 46 + name.length;
+    });
+  });
+});
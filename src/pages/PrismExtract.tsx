@@ -1,117 +1,322 @@
-import { Check, Copy, Image as ImageIcon, Palette, Upload, Wand2 } from 'lucide-react';
+import { Check, Copy, Image as ImageIcon, Lock, LockOpen, Palette, Upload, Wand2 } from 'lucide-react';
 import React, { useMemo, useRef, useState } from 'react';
+import { DesignTokensExport } from '@/components/prism/DesignTokensExport';
+import { EasingEditor } from '@/components/prism/EasingEditor';
+import { ExtractionSettings } from '@/components/prism/ExtractionSettings';
+import { PaletteDownloads } from '@/components/prism/PaletteDownloads';
+import { PaletteImport } from '@/components/prism/PaletteImport';
+import { ShareDialog } from '@/components/prism/ShareDialog';
+import { SwatchEditor } from '@/components/prism/SwatchEditor';
+import { TailwindExport } from '@/components/prism/TailwindExport';
+import { GradientBar } from '@/components/prism/GradientBar';
+import { GradientLayers } from '@/components/prism/GradientLayers';
+import { type ImageTool, ImageWorkspace } from '@/components/prism/ImageWorkspace';
+import { ImageExport } from '@/components/prism/ImageExport';
+import { ImageToolbar } from '@/components/prism/ImageToolbar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useDebounce } from '@/hooks/use-debounce';
+import { usePermalink } from '@/hooks/use-permalink';
 import { useToast } from '@/hooks/use-toast';
-import { type ColorInfo, extractColors, generateGradient } from '@/lib/colorExtractor';
+import {
+  type ClusterMap,
+  type ColorInfo,
+  createColorInfo,
+  DEFAULT_EXTRACTION_OPTIONS,
+  type ExtractionOptions,
+  getWeightedStops,
+  isColorModified,
+  type RGB,
+  revertColorInfo,
+  sortByDominance,
+  updateColorInfo
+} from '@/lib/colorExtractor';
+import { extractColorsInBackground, isAbortError } from '@/lib/extractionWorker';
+import {
+  createGradientLayer,
+  formatBackgroundCSS,
+  generateBackground,
+  generateLayerGradient,
+  getEvenStops,
+  getLayerColorStops,
+  getStripeStops,
+  type GradientLayer,
+  type GradientOptions,
+  type GradientType,
+  type RadialShape,
+  type RadialSize,
+  sampleLayerColor
+} from '@/lib/gradient';
+import {
+  HUE_INTERPOLATIONS,
+  type HueInterpolation,
+  INTERPOLATION_SPACES,
+  type InterpolationSpace,
+  isPolarSpace
+} from '@/lib/interpolation';
+import type { SampleSize } from '@/lib/eyedropper';
+import { generateNativeCode, NATIVE_PLATFORMS, type NativePlatform } from '@/lib/nativeCode';
+import { importPaletteFile, isPaletteFile } from '@/lib/paletteFormats';
+import { parsePermalink } from '@/lib/permalink';
+import type { Region, RegionMode } from '@/lib/regions';
+
+/** Whether this browser understands `<color-interpolation-method>` in gradients */
+const supportsInterpolation =
+  typeof CSS !== 'undefined' && CSS.supports('background-image', 'linear-gradient(in oklch, red, blue)');
+
+const INTERPOLATION_LABELS: Record<InterpolationSpace, string> = {
+  srgb: 'sRGB',
+  'srgb-linear': 'Linear sRGB',
+  oklab: 'OKLab',
+  oklch: 'OKLCH',
+  hsl: 'HSL'
+};
 
 export default function PrismExtract() {
-  const [colors, setColors] = useState<ColorInfo[]>([]);
-  const [selectedColors, setSelectedColors] = useState<Set<string>>(new Set());
-  const [angle, setAngle] = useState<number>(90);
-  const [stops, setStops] = useState<number[]>([]);
+  // A permalink restores the palette and layers without the source image
+  const [restored] = useState(() => parsePermalink(new URLSearchParams(window.location.search)));
+  const [colors, setColors] = useState<ColorInfo[]>(() => restored?.colors ?? []);
+  const [lockedIds, setLockedIds] = useState<Set<string>>(() => new Set());
+  const [layers, setLayers] = useState<GradientLayer[]>(() => restored?.layers ?? [createGradientLayer([])]);
+  const [activeLayerId, setActiveLayerId] = useState<string>(() => restored?.activeLayerId ?? layers[0].id);
+  const [stripeWidth, setStripeWidth] = useState<number>(10);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [copied, setCopied] = useState(false);
+  const [codeTab, setCodeTab] = useState<'css' | NativePlatform>('css');
   const [colorCount, setColorCount] = useState<number>(6);
+  const [extractionOptions, setExtractionOptions] = useState<ExtractionOptions>({
+    ...DEFAULT_EXTRACTION_OPTIONS,
+    seed: 1
+  });
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [regionMode, setRegionMode] = useState<RegionMode>('include');
+  const [imageTool, setImageTool] = useState<ImageTool | null>(null);
+  const [sampleSize, setSampleSize] = useState<SampleSize>(1);
+  const [clusterMap, setClusterMap] = useState<ClusterMap | null>(null);
+  const [hoveredColorId, setHoveredColorId] = useState<string | null>(null);
+  const [pinnedColorId, setPinnedColorId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const previewRef = useRef<HTMLDivElement>(null);
+  const announceExtractionRef = useRef(false);
   const { toast } = useToast();
 
-  // Initialize stops when colors change
-  React.useEffect(() => {
-    if (colors.length > 0) {
-      const newStops = colors.map((_, index) => 
-        Math.round((index / (colors.length - 1)) * 100)
-      );
-      setStops(newStops);
-      setSelectedColors(new Set(colors.map(c => c.id)));
-    }
-  }, [colors]);
+  // The swatches and the Basic/Advanced controls edit the selected layer
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+  const { selectedColors, angle, options: gradientOptions } = activeLayer;
 
-  // Re-extract colors when colorCount changes (if image is uploaded)
+  // Mirror the editor into the URL so a refresh or a shared link brings it back
+  const permalinkState = useMemo(
+    () => (colors.length > 0 ? { colors, layers, activeLayerId } : null),
+    [colors, layers, activeLayerId]
+  );
+  usePermalink(permalinkState);
+
+  const updateActiveLayer = (update: (layer: GradientLayer) => Partial<GradientLayer>) => {
+    setLayers(prev => prev.map(layer => (layer.id === activeLayer.id ? { ...layer, ...update(layer) } : layer)));
+  };
+
+  const setAngle = (value: number) => {
+    updateActiveLayer(() => ({ angle: value }));
+  };
+
+  const updateGradientOptions = (patch: GradientOptions) => {
+    updateActiveLayer(layer => ({ options: { ...layer.options, ...patch } }));
+  };
+
+  // Replace the palette, spreading stops evenly and selecting every new color in every layer.
+  // Colors that survive (locked ones) keep their stop, end and selection.
+  const applyPalette = (newColors: ColorInfo[]) => {
+    setColors(newColors);
+    setLayers(prev => prev.map(layer => {
+      const kept = newColors.filter(c => c.id in layer.stops);
+      return {
+        ...layer,
+        selectedColors: new Set(
+          newColors.filter(c => !(c.id in layer.stops) || layer.selectedColors.has(c.id)).map(c => c.id)
+        ),
+        stops: { ...getEvenStops(newColors), ...Object.fromEntries(kept.map(c => [c.id, layer.stops[c.id]])) },
+        stopEnds: Object.fromEntries(
+          kept.filter(c => c.id in layer.stopEnds).map(c => [c.id, layer.stopEnds[c.id]])
+        )
+      };
+    }));
+  };
+
+  // Add a single color (e.g. from the eyedropper) to the palette, by default at the end of the gradient.
+  // It is locked, so re-extraction keeps it like any other locked swatch.
+  const addColor = (color: ColorInfo, position = 100) => {
+    setColors(prev => [...prev, color]);
+    setLockedIds(prev => new Set(prev).add(color.id));
+    setLayers(prev => prev.map(layer => ({
+      ...layer,
+      stops: { ...layer.stops, [color.id]: position },
+      selectedColors: layer.id === activeLayer.id ? new Set(layer.selectedColors).add(color.id) : layer.selectedColors
+    })));
+  };
+
+  // Threshold sliders fire on every tick; wait for them to settle before re-extracting
+  const debouncedOptions = useDebounce(extractionOptions, 250);
+
+  // Regions are kept apart from the settings so the palette re-extracts as soon
+  // as a region is drawn, and both persist across color count changes
+  const regionOptions = useMemo<ExtractionOptions>(
+    () => ({ ...debouncedOptions, regions }),
+    [debouncedOptions, regions]
+  );
+
+  // Locked swatches are read when an extraction starts; locking one doesn't re-extract
+  const lockedColorsRef = useRef<ColorInfo[]>([]);
+  lockedColorsRef.current = colors.filter(c => lockedIds.has(c.id));
+
+  // Extract colors off the main thread whenever the image or colorCount changes.
+  // Moving the slider again aborts the stale job instead of queueing behind it.
   React.useEffect(() => {
-    if (uploadedFile && !isProcessing) {
-      const extractColorsFromFile = async () => {
-        setIsProcessing(true);
-        try {
-          const extractedColors = await extractColors(uploadedFile, colorCount);
-          setColors(extractedColors);
-        } catch (error) {
-          console.error('Error re-extracting colors:', error);
+    if (!uploadedFile) return;
+
+    const controller = new AbortController();
+    setIsProcessing(true);
+
+    const options = { ...regionOptions, locked: lockedColorsRef.current };
+    extractColorsInBackground(uploadedFile, colorCount, options, controller.signal)
+      .then(({ colors: extractedColors, clusterMap: extractedMap }) => {
+        applyPalette(sortByDominance(extractedColors));
+        setClusterMap(extractedMap);
+        if (announceExtractionRef.current) {
+          announceExtractionRef.current = false;
           toast({
-            title: 'Processing Error',
-            description: 'Failed to extract colors from the image',
-            variant: 'destructive'
+            title: 'Success!',
+            description: `Extracted ${extractedColors.length} dominant colors from your image`
           });
-        } finally {
+        }
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error('Error extracting colors:', error);
+        toast({
+          title: 'Processing Error',
+          description: 'Failed to extract colors from the image',
+          variant: 'destructive'
+        });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
           setIsProcessing(false);
         }
-      };
-      extractColorsFromFile();
-    }
-  }, [colorCount, uploadedFile, toast]);
+      });
 
-  // Generate gradient CSS
-  const gradientCSS = useMemo(() => {
-    const activeColors = colors.filter(c => selectedColors.has(c.id));
-    if (activeColors.length === 0) return '';
-    
-    const activeStops = activeColors.map((color, index) => {
-      const originalIndex = colors.findIndex(c => c.id === color.id);
-      return stops[originalIndex] || 0;
+    return () => controller.abort();
+  }, [colorCount, regionOptions, uploadedFile, toast]);
+
+  // Show where the hovered (or pinned) swatch lives in the image
+  const highlightedColorId = hoveredColorId ?? pinnedColorId;
+  const highlight = useMemo(
+    () => (clusterMap && highlightedColorId ? { clusterMap, colorId: highlightedColorId } : null),
+    [clusterMap, highlightedColorId]
+  );
+
+  // Generate the stacked gradient background
+  const background = useMemo(() => generateBackground(layers, colors), [layers, colors]);
+  // Fall back to the sRGB approximation where `in oklch` etc. would not render
+  const gradientCSS = (
+    supportsInterpolation ? background.gradients : (background.fallbackGradients ?? background.gradients)
+  ).join(', ');
+  const cssCode = useMemo(() => formatBackgroundCSS(background), [background]);
+  // Native platforms draw the selected layer only
+  const outputCode = useMemo(
+    () => (codeTab === 'css' ? cssCode : generateNativeCode(codeTab, activeLayer, colors)),
+    [codeTab, cssCode, activeLayer, colors]
+  );
+
+  // Stops of the selected layer in gradient order, and a left-to-right preview for the stop bar
+  const layerStops = useMemo(() => getLayerColorStops(activeLayer, colors), [activeLayer, colors]);
+  const barBackground = useMemo(
+    () =>
+      generateLayerGradient(
+        { ...activeLayer, angle: 90, options: { ...activeLayer.options, type: 'linear' } },
+        colors,
+        !supportsInterpolation
+      ),
+    [activeLayer, colors]
+  );
+  // Every band has to fit on the gradient line before it repeats
+  const maxStripeWidth = Math.max(1, Math.floor(100 / Math.max(1, layerStops.length)));
+  const easedSegments = useMemo(
+    () => new Set(Object.keys(activeLayer.easings).filter(id => activeLayer.easings[id].type !== 'linear')),
+    [activeLayer]
+  );
+
+  // Use an imported palette; it has no pixels behind it, so there is nothing to highlight
+  // An imported palette replaces the image too: with the image kept, touching the
+  // count or extraction settings would re-extract and throw the import away.
+  // Dropping the file aborts any extraction still running.
+  const applyImportedPalette = (importedColors: ColorInfo[]) => {
+    applyPalette(importedColors);
+    setLockedIds(new Set());
+    setUploadedImage(null);
+    setUploadedFile(null);
+    setClusterMap(null);
+    setPinnedColorId(null);
+    setRegions([]);
+    setImageTool(null);
+    setIsProcessing(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    toast({
+      title: 'Palette imported',
+      description: `Imported ${importedColors.length} colors`
     });
-    
-    return generateGradient(activeColors, angle, activeStops);
-  }, [colors, selectedColors, angle, stops]);
+  };
+
+  const handlePaletteFile = async (file: File) => {
+    try {
+      applyImportedPalette(await importPaletteFile(file));
+    } catch (error) {
+      console.error('Error importing palette:', error);
+      toast({
+        title: 'Import Error',
+        description: error instanceof Error ? error.message : 'Failed to read the palette file',
+        variant: 'destructive'
+      });
+    }
+  };
 
   // Handle file upload
-  const handleFileChange = async (file: File | null) => {
+  const handleFileChange = (file: File | null) => {
     if (!file) return;
 
+    if (isPaletteFile(file)) {
+      handlePaletteFile(file);
+      return;
+    }
+
     // Validate file type
     if (!file.type.startsWith('image/')) {
       toast({
         title: 'Invalid File',
-        description: 'Please upload an image file (JPG, PNG, GIF, or WebP)',
+        description: 'Please upload an image (JPG, PNG, GIF, or WebP) or a palette (.ase, .gpl, .json, .css)',
         variant: 'destructive'
       });
       return;
     }
 
-    setIsProcessing(true);
-    
-    try {
-      // Create preview URL
-      const imageUrl = URL.createObjectURL(file);
-      setUploadedImage(imageUrl);
-      setUploadedFile(file);
-
-      // Extract colors
-      const extractedColors = await extractColors(file, colorCount);
-      setColors(extractedColors);
-      
-      toast({
-        title: 'Success!',
-        description: `Extracted ${extractedColors.length} dominant colors from your image`
-      });
-    } catch (error) {
-      console.error('Error processing image:', error);
-      toast({
-        title: 'Processing Error',
-        description: 'Failed to extract colors from the image',
-        variant: 'destructive'
-      });
-    } finally {
-      setIsProcessing(false);
-    }
+    // Create preview URL; extraction itself is driven by the effect above
+    const imageUrl = URL.createObjectURL(file);
+    announceExtractionRef.current = true;
+    setRegions([]);
+    setUploadedImage(imageUrl);
+    setUploadedFile(file);
   };
 
   // Handle drag and drop
@@ -140,10 +345,38 @@ export default function PrismExtract() {
     fileInputRef.current?.click();
   };
 
+  // Add the eyedropper color to the palette
+  const handlePickColor = (rgb: RGB) => {
+    const color = createColorInfo(rgb);
+    addColor(color);
+    toast({
+      title: 'Color added',
+      description: `${color.hex} was added to the palette`
+    });
+  };
+
+  // Edit a swatch in place; its id, stops and selection stay as they are
+  const updateColor = (colorId: string, rgb: RGB) => {
+    setColors(prev => prev.map(c => (c.id === colorId ? updateColorInfo(c, rgb) : c)));
+  };
+
+  const revertColor = (colorId: string) => {
+    setColors(prev => prev.map(c => (c.id === colorId ? revertColorInfo(c) : c)));
+  };
+
+  // Locked swatches survive re-extraction; the quantizer only fills the other slots
+  const toggleLock = (colorId: string) => {
+    setLockedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(colorId)) next.add(colorId);
+      return next;
+    });
+  };
+
   // Toggle color selection
   const toggleColor = (colorId: string) => {
-    setSelectedColors(prev => {
-      const newSet = new Set(prev);
+    updateActiveLayer(layer => {
+      const newSet = new Set(layer.selectedColors);
       if (newSet.has(colorId)) {
         if (newSet.size > 1) {
           newSet.delete(colorId);
@@ -151,22 +384,76 @@ export default function PrismExtract() {
       } else {
         newSet.add(colorId);
       }
-      return newSet;
+      return { selectedColors: newSet };
     });
   };
 
-  // Update stop position
-  const updateStop = (index: number, value: number) => {
-    setStops(prev => {
-      const newStops = [...prev];
-      newStops[index] = value;
-      return newStops;
+  // Update stop position; a two-position stop moves as a whole
+  const updateStop = (colorId: string, value: number) => {
+    updateActiveLayer(layer => {
+      const end = layer.stopEnds[colorId];
+      if (end === undefined) {
+        return { stops: { ...layer.stops, [colorId]: value } };
+      }
+      const width = end - (layer.stops[colorId] ?? 0);
+      const start = Math.min(value, 100 - width);
+      return {
+        stops: { ...layer.stops, [colorId]: start },
+        stopEnds: { ...layer.stopEnds, [colorId]: start + width }
+      };
+    });
+  };
+
+  // Set or clear (undefined) the end of a two-position stop
+  const updateStopEnd = (colorId: string, end: number | undefined) => {
+    updateActiveLayer(layer => {
+      const { [colorId]: _, ...stopEnds } = layer.stopEnds;
+      return { stopEnds: end === undefined ? stopEnds : { ...stopEnds, [colorId]: end } };
+    });
+  };
+
+  // Turn the selected colors into evenly banded stripes on a repeating gradient
+  const applyStripes = () => {
+    updateActiveLayer(layer => ({
+      ...getStripeStops(
+        getLayerColorStops(layer, colors).map(stop => stop.color),
+        Math.min(stripeWidth, maxStripeWidth)
+      ),
+      options: { ...layer.options, repeating: true }
+    }));
+  };
+
+  // Set or clear (undefined) the midpoint of the segment starting at a color
+  const updateHint = (colorId: string, hint: number | undefined) => {
+    updateActiveLayer(layer => {
+      const { [colorId]: _, ...hints } = layer.hints;
+      return { hints: hint === undefined ? hints : { ...hints, [colorId]: hint } };
+    });
+  };
+
+  // Add a stop with the color the gradient currently shows at that position
+  const addStopAt = (position: number) => {
+    const rgb = sampleLayerColor(activeLayer, colors, position);
+    if (!rgb) return;
+    addColor(createColorInfo(rgb), position);
+  };
+
+  // Place selected colors along the gradient in proportion to their pixel share
+  const distributeStopsByWeight = () => {
+    const activeColors = colors.filter(c => selectedColors.has(c.id));
+    const weightedStops = getWeightedStops(activeColors);
+    updateActiveLayer(layer => {
+      const newStops = { ...layer.stops };
+      activeColors.forEach((color, index) => {
+        newStops[color.id] = weightedStops[index];
+      });
+      return { stops: newStops };
     });
   };
 
   // Handle preview click to adjust angle
   const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!previewRef.current) return;
+    if (!previewRef.current || gradientOptions.type !== 'linear') return;
     
     const rect = previewRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left - rect.width / 2;
@@ -178,24 +465,47 @@ export default function PrismExtract() {
     setAngle(Math.round(newAngle));
   };
 
-  // Copy CSS to clipboard
-  const handleCopyCSS = () => {
-    navigator.clipboard.writeText(`background: ${gradientCSS};`);
+  // Drag on the preview to move the center of radial and conic gradients
+  const handlePreviewPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!previewRef.current || gradientOptions.type === 'linear') return;
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+
+    const rect = previewRef.current.getBoundingClientRect();
+    const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+    updateGradientOptions({
+      position: {
+        x: clamp(((e.clientX - rect.left) / rect.width) * 100),
+        y: clamp(((e.clientY - rect.top) / rect.height) * 100)
+      }
+    });
+  };
+
+  // Copy the code of the open tab to clipboard
+  const handleCopyCode = () => {
+    navigator.clipboard.writeText(outputCode);
     setCopied(true);
     toast({
       title: 'Copied!',
-      description: 'CSS code copied to clipboard'
+      description: `${codeTab === 'css' ? 'CSS' : NATIVE_PLATFORMS[codeTab].label} code copied to clipboard`
     });
     setTimeout(() => setCopied(false), 2000);
   };
 
   // Reset everything
   const handleReset = () => {
+    const layer = createGradientLayer([]);
     setColors([]);
-    setSelectedColors(new Set());
-    setStops([]);
+    setLockedIds(new Set());
+    setLayers([layer]);
+    setActiveLayerId(layer.id);
     setUploadedImage(null);
     setUploadedFile(null);
+    setClusterMap(null);
+    setPinnedColorId(null);
+    setRegions([]);
+    setImageTool(null);
+    setIsProcessing(false);
     setCopied(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -221,7 +531,7 @@ export default function PrismExtract() {
       </header>
 
       {/* Main Content */}
-      <div className={uploadedImage ? "container mx-auto px-6 py-12" : "w-full lg:w-1/2 mx-auto px-6 py-12"}>
+      <div className={uploadedImage || colors.length > 0 ? "container mx-auto px-6 py-12" : "w-full lg:w-1/2 mx-auto px-6 py-12"}>
       
 
         {!uploadedImage ? (
@@ -248,7 +558,7 @@ export default function PrismExtract() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.ase,.gpl,.json,.css"
                     className="hidden"
                     onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
                   />
@@ -260,11 +570,13 @@ export default function PrismExtract() {
                         {isProcessing ? 'Processing...' : 'Click to upload or drag and drop'}
                       </p>
                       <p className="text-sm text-muted-foreground text-[#0C0D7A]">
-                        Supports JPG, PNG, GIF, and WebP formats
+                        Supports JPG, PNG, GIF, and WebP formats, or .ase, .gpl, .json and .css palettes
                       </p>
                     </div>
 
                 </div>
+
+                <PaletteImport onImport={applyImportedPalette} />
               </CardContent>
             </Card>
         ) : (
@@ -288,7 +600,7 @@ export default function PrismExtract() {
                 </div>
 
                 <div
-                  className={`relative border-2 border-dashed rounded-3xl p-2 lg:p-12 transition-all duration-300 cursor-pointer ${
+                  className={`relative border-2 border-dashed rounded-3xl p-2 lg:p-12 transition-all duration-300 ${imageTool ? '' : 'cursor-pointer'} ${
                     isDragging
                       ? 'border-primary bg-primary/5 scale-[0.98]'
                       : 'border-border hover:border-primary/50 hover:bg-accent/30'
@@ -296,37 +608,55 @@ export default function PrismExtract() {
                   onDragOver={handleDragOver}
                   onDragLeave={handleDragLeave}
                   onDrop={handleDrop}
-                  onClick={handleUploadClick}
+                  onClick={imageTool ? undefined : handleUploadClick}
                 >
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.ase,.gpl,.json,.css"
                     className="hidden"
                     onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
                   />
                     <div className="relative group">
-                      <img
+                      <ImageWorkspace
                         src={uploadedImage}
-                        alt="Uploaded"
-                        className="w-full h-64 object-cover rounded-2xl"
+                        tool={imageTool}
+                        regionMode={regionMode}
+                        regions={regions}
+                        onRegionsChange={setRegions}
+                        sampleSize={sampleSize}
+                        onPickColor={handlePickColor}
+                        highlight={highlight}
                       />
-                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity rounded-2xl flex items-center justify-center">
-                        <Button
-                          variant="secondary"
-                          size="lg"
-                          className="rounded-full text-[#0C0D7A]"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleReset();
-                          }}
-                        >
-                          Change Image
-                        </Button>
-                      </div>
+                      {!imageTool && (
+                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity rounded-2xl flex items-center justify-center">
+                          <Button
+                            variant="secondary"
+                            size="lg"
+                            className="rounded-full text-[#0C0D7A]"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleReset();
+                            }}
+                          >
+                            Change Image
+                          </Button>
+                        </div>
+                      )}
                     </div>
 
                 </div>
+
+                <ImageToolbar
+                  tool={imageTool}
+                  onToolChange={setImageTool}
+                  regionMode={regionMode}
+                  onRegionModeChange={setRegionMode}
+                  regions={regions}
+                  onRegionsChange={setRegions}
+                  sampleSize={sampleSize}
+                  onSampleSizeChange={setSampleSize}
+                />
               </CardContent>
             </Card>
                   ) : (
@@ -341,76 +671,147 @@ export default function PrismExtract() {
                     <div className="p-2 bg-primary/10 rounded-2xl">
                       <Palette className="w-5 h-5 text-primary" />
                     </div>
-                    <h2 className="text-xl font-semibold text-[#0C0D7A]">Extracted Colors</h2>
+                    <h2 className="text-xl font-semibold text-[#0C0D7A]">{uploadedImage ? 'Extracted Colors' : 'Palette'}</h2>
                   </div>
 
-                  {/* Color Count Selector */}
-                  <div className="mb-6 space-y-3">
-                    <Label className="text-sm font-medium text-[#0C0D7A]">Number of Colors</Label>
-                    <div className="flex items-center gap-4">
-                      <Slider
-                        value={[colorCount]}
-                        onValueChange={(value) => setColorCount(value[0])}
-                        min={3}
-                        max={12}
-                        step={1}
-                        className="flex-1"
-                        disabled={isProcessing}
-                      />
-                      <div className="w-16 text-center">
-                        <Input
-                          type="number"
-                          value={colorCount}
-                          onChange={(e) => {
-                            const val = Number(e.target.value);
-                            if (val >= 3 && val <= 12) {
-                              setColorCount(val);
-                            }
-                          }}
-                          min={3}
-                          max={12}
-                          disabled={isProcessing}
-                          className="text-center rounded-xl"
-                        />
+                  {uploadedImage && (
+                    <>
+                      {/* Color Count Selector */}
+                      <div className="mb-6 space-y-3">
+                        <Label className="text-sm font-medium text-[#0C0D7A]">Number of Colors</Label>
+                        <div className="flex items-center gap-4">
+                          <Slider
+                            value={[colorCount]}
+                            onValueChange={(value) => setColorCount(value[0])}
+                            min={3}
+                            max={12}
+                            step={1}
+                            className="flex-1"
+                          />
+                          <div className="w-16 text-center">
+                            <Input
+                              type="number"
+                              value={colorCount}
+                              onChange={(e) => {
+                                const val = Number(e.target.value);
+                                if (val >= 3 && val <= 12) {
+                                  setColorCount(val);
+                                }
+                              }}
+                              min={3}
+                              max={12}
+                              className="text-center rounded-xl"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {isProcessing
+                            ? 'Extracting colors...'
+                            : lockedIds.size > 0
+                              ? `Adjust to re-extract colors (3-12); ${lockedIds.size} locked ${lockedIds.size === 1 ? 'color stays' : 'colors stay'}`
+                              : 'Adjust to re-extract colors (3-12)'}
+                        </p>
+                      </div>
+
+                      <ExtractionSettings options={extractionOptions} onChange={setExtractionOptions} />
+                    </>
+                  )}
+
+                  {/* Proportional palette bar */}
+                  {uploadedImage && (
+                    <div className="mb-6 space-y-2">
+                      <Label className="text-sm font-medium text-[#0C0D7A]">Color Distribution</Label>
+                      <div className="flex h-6 w-full overflow-hidden rounded-xl soft-shadow">
+                        {colors.map((color) => (
+                          <button
+                            key={color.id}
+                            type="button"
+                            className={`h-full transition-all duration-200 ${
+                              pinnedColorId === color.id ? 'ring-2 ring-inset ring-white' : ''
+                            }`}
+                            style={{ width: `${color.percentage}%`, backgroundColor: color.hex }}
+                            title={`${color.hex} · ${color.percentage.toFixed(1)}%`}
+                            aria-label={`Highlight ${color.hex} in the image`}
+                            aria-pressed={pinnedColorId === color.id}
+                            onClick={() => setPinnedColorId(prev => (prev === color.id ? null : color.id))}
+                            onMouseEnter={() => setHoveredColorId(color.id)}
+                            onMouseLeave={() => setHoveredColorId(null)}
+                          />
+                        ))}
                       </div>
+                      <p className="text-xs text-muted-foreground">
+                        Hover a swatch to see where it appears in the image; click a bar segment to pin it
+                      </p>
                     </div>
-                    <p className="text-xs text-muted-foreground">
-                      {isProcessing ? 'Extracting colors...' : 'Adjust to re-extract colors (3-12)'}
-                    </p>
-                  </div>
-                  
+                  )}
+
                   <div className={`grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4 transition-opacity ${isProcessing ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
                     {colors.map((color) => {
                       const isSelected = selectedColors.has(color.id);
+                      const isLocked = lockedIds.has(color.id);
                       return (
-                        <button
-                          key={color.id}
-                          type="button"
-                          onClick={() => toggleColor(color.id)}
-                          className={`group relative aspect-square rounded-2xl transition-all duration-300 ${
-                            isSelected 
-                              ? 'scale-100 soft-shadow' 
-                              : 'scale-95 opacity-50 hover:opacity-75'
-                          }`}
-                          style={{ backgroundColor: color.hex }}
-                        >
-                          <div className="absolute inset-0 rounded-2xl border-4 border-white/20" />
-                          {isSelected && (
-                            <div className="absolute inset-0 flex items-center justify-center">
-                              <div className="p-2 bg-white/90 rounded-full">
-                                <Check className="w-5 h-5 text-primary" />
+                        <div key={color.id} className="relative group/swatch">
+                          <button
+                            type="button"
+                            onClick={() => toggleColor(color.id)}
+                            onMouseEnter={() => setHoveredColorId(color.id)}
+                            onMouseLeave={() => setHoveredColorId(null)}
+                            onFocus={() => setHoveredColorId(color.id)}
+                            onBlur={() => setHoveredColorId(null)}
+                            className={`group relative w-full aspect-square rounded-2xl transition-all duration-300 ${
+                              isSelected 
+                                ? 'scale-100 soft-shadow' 
+                                : 'scale-95 opacity-50 hover:opacity-75'
+                            }`}
+                            style={{ backgroundColor: color.hex }}
+                            aria-label={`${color.hex}, ${color.percentage.toFixed(1)}% of image`}
+                          >
+                            <div className="absolute inset-0 rounded-2xl border-4 border-white/20" />
+                            {isSelected && (
+                              <div className="absolute inset-0 flex items-center justify-center">
+                                <div className="p-2 bg-white/90 rounded-full">
+                                  <Check className="w-5 h-5 text-primary" />
+                                </div>
                               </div>
+                            )}
+                            <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <Badge variant="secondary" className="text-xs font-mono rounded-full">
+                                {color.hex} · {Math.round(color.percentage)}%
+                              </Badge>
                             </div>
+                          </button>
+                          {isColorModified(color) && (
+                            <span
+                              className="absolute bottom-1.5 left-1.5 w-2.5 h-2.5 rounded-full bg-white ring-2 ring-primary pointer-events-none"
+                              title="Edited"
+                              aria-label="Edited"
+                            />
                           )}
-                          <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <Badge variant="secondary" className="text-xs font-mono rounded-full">
-                              {color.hex}
-                            </Badge>
-                          </div>
-                        </button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className={`absolute top-1 left-1 h-7 w-7 rounded-full text-[#0C0D7A] ${
+                              isLocked ? 'opacity-100' : 'opacity-0 group-hover/swatch:opacity-100 focus-visible:opacity-100'
+                            }`}
+                            onClick={() => toggleLock(color.id)}
+                            aria-label={`${isLocked ? 'Unlock' : 'Lock'} ${color.hex}`}
+                            aria-pressed={isLocked}
+                            title={isLocked ? 'Locked: kept when colors are re-extracted' : 'Lock to keep when re-extracting'}
+                          >
+                            {isLocked ? <Lock className="w-3.5 h-3.5" /> : <LockOpen className="w-3.5 h-3.5" />}
+                          </Button>
+                          <SwatchEditor
+                            color={color}
+                            onChange={(rgb) => updateColor(color.id, rgb)}
+                            onRevert={() => revertColor(color.id)}
+                            className="absolute top-1 right-1 opacity-0 group-hover/swatch:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                          />
+                        </div>
                       );
                     })}
                   </div>
+
+                  <PaletteDownloads colors={colors} />
                 </CardContent>
               </Card>
             )}
@@ -422,24 +823,48 @@ export default function PrismExtract() {
             {colors.length > 0 && (
               <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
                 <CardContent className="p-2 lg:p-8">
-                  <div className="flex items-center gap-3 mb-6">
-                    <div className="p-2 bg-primary/10 rounded-2xl">
-                      <Wand2 className="w-5 h-5 text-primary" />
+                  <div className="flex items-center justify-between gap-4 mb-6">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-primary/10 rounded-2xl">
+                        <Wand2 className="w-5 h-5 text-primary" />
+                      </div>
+                      <h2 className="text-xl font-semibold text-[#0C0D7A]">Gradient Preview</h2>
                     </div>
-                    <h2 className="text-xl font-semibold text-[#0C0D7A]">Gradient Preview</h2>
+                    {permalinkState && <ShareDialog state={permalinkState} />}
                   </div>
                   
                   <div
                     ref={previewRef}
-                    className="w-full h-80 rounded-3xl soft-shadow-lg cursor-pointer transition-transform hover:scale-[0.98] relative overflow-hidden"
-                    style={{ background: gradientCSS }}
+                    className={`w-full h-80 rounded-3xl soft-shadow-lg relative overflow-hidden ${
+                      gradientOptions.type === 'linear'
+                        ? 'cursor-pointer transition-transform hover:scale-[0.98]'
+                        : 'cursor-move touch-none'
+                    }`}
+                    style={{ background: gradientCSS, backgroundBlendMode: background.blendModes.join(', ') }}
                     onClick={handlePreviewClick}
+                    onPointerDown={handlePreviewPointer}
+                    onPointerMove={handlePreviewPointer}
                   >
                     <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent" />
+                    {gradientOptions.type !== 'linear' && (
+                      <div
+                        className="absolute w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-black/30 soft-shadow pointer-events-none"
+                        style={{ left: `${gradientOptions.position.x}%`, top: `${gradientOptions.position.y}%` }}
+                        aria-hidden="true"
+                      />
+                    )}
                     <div className="absolute bottom-6 left-6 right-6">
                       <div className="bg-black/20 backdrop-blur-md rounded-2xl p-4">
-                        <p className="text-white/90 text-sm font-medium">Click to adjust angle</p>
-                        <p className="text-white/70 text-xs mt-1">Current angle: {angle}°</p>
+                        <p className="text-white/90 text-sm font-medium">
+                          {gradientOptions.type === 'linear' ? 'Click to adjust angle' : 'Drag to move the center'}
+                        </p>
+                        <p className="text-white/70 text-xs mt-1">
+                          {gradientOptions.type === 'radial'
+                            ? `Center: ${gradientOptions.position.x}% ${gradientOptions.position.y}%`
+                            : gradientOptions.type === 'conic'
+                              ? `From ${angle}° at ${gradientOptions.position.x}% ${gradientOptions.position.y}%`
+                              : `Current angle: ${angle}°`}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -451,6 +876,14 @@ export default function PrismExtract() {
             {colors.length > 0 && (
               <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
                 <CardContent className="p-2 lg:p-8">
+                  <GradientLayers
+                    layers={layers}
+                    colors={colors}
+                    activeLayerId={activeLayer.id}
+                    onActiveLayerChange={setActiveLayerId}
+                    onLayersChange={setLayers}
+                  />
+
                   <Tabs defaultValue="basic" className="w-full">
                     <TabsList className="grid w-full grid-cols-2 rounded-2xl p-1 bg-muted/50">
                       <TabsTrigger value="basic" className="rounded-xl text-[#0C0D7A]">Basic</TabsTrigger>
@@ -459,7 +892,59 @@ export default function PrismExtract() {
                     
                     <TabsContent value="basic" className="space-y-6 mt-6">
                       <div className="space-y-3">
-                        <Label className="text-base font-medium text-[#0C0D7A]">Angle</Label>
+                        <Label className="text-base font-medium text-[#0C0D7A]">Type</Label>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          value={gradientOptions.type}
+                          onValueChange={(value) => value && updateGradientOptions({ type: value as GradientType })}
+                          className="w-full"
+                        >
+                          <ToggleGroupItem value="linear">Linear</ToggleGroupItem>
+                          <ToggleGroupItem value="radial">Radial</ToggleGroupItem>
+                          <ToggleGroupItem value="conic">Conic</ToggleGroupItem>
+                        </ToggleGroup>
+                        <div className="flex items-center justify-between gap-4">
+                          <Label htmlFor="repeating-gradient" className="text-sm text-[#0C0D7A]">
+                            Repeat stops
+                          </Label>
+                          <Switch
+                            id="repeating-gradient"
+                            checked={gradientOptions.repeating}
+                            onCheckedChange={(checked) => updateGradientOptions({ repeating: checked })}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label className="text-base font-medium text-[#0C0D7A]">Stripes</Label>
+                        <div className="flex items-center gap-4">
+                          <Slider
+                            value={[Math.min(stripeWidth, maxStripeWidth)]}
+                            onValueChange={(value) => setStripeWidth(value[0])}
+                            min={1}
+                            max={maxStripeWidth}
+                            step={1}
+                            className="flex-1"
+                            aria-label="Band width"
+                          />
+                          <div className="w-12 text-sm text-muted-foreground font-medium">
+                            {Math.min(stripeWidth, maxStripeWidth)}%
+                          </div>
+                          <Button variant="outline" size="sm" className="rounded-full" onClick={applyStripes}>
+                            Make stripes
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Bands the selected colors with hard edges and repeats them
+                        </p>
+                      </div>
+
+                      {gradientOptions.type !== 'radial' && (
+                      <div className="space-y-3">
+                        <Label className="text-base font-medium text-[#0C0D7A]">
+                          {gradientOptions.type === 'conic' ? 'From Angle' : 'Angle'}
+                        </Label>
                         <div className="flex items-center gap-4">
                           <Slider
                             value={[angle]}
@@ -481,47 +966,161 @@ export default function PrismExtract() {
                           </div>
                         </div>
                       </div>
+                      )}
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium text-[#0C0D7A]">Interpolation</Label>
+                          <Select
+                            value={gradientOptions.interpolation}
+                            onValueChange={(value) =>
+                              updateGradientOptions({ interpolation: value as InterpolationSpace })
+                            }
+                          >
+                            <SelectTrigger className="rounded-xl">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {INTERPOLATION_SPACES.map(space => (
+                                <SelectItem key={space} value={space}>
+                                  {INTERPOLATION_LABELS[space]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {isPolarSpace(gradientOptions.interpolation) && (
+                          <div className="space-y-3">
+                            <Label className="text-sm font-medium text-[#0C0D7A]">Hue</Label>
+                            <Select
+                              value={gradientOptions.hueInterpolation}
+                              onValueChange={(value) =>
+                                updateGradientOptions({ hueInterpolation: value as HueInterpolation })
+                              }
+                            >
+                              <SelectTrigger className="rounded-xl capitalize">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {HUE_INTERPOLATIONS.map(method => (
+                                  <SelectItem key={method} value={method} className="capitalize">
+                                    {method}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {gradientOptions.interpolation === 'srgb'
+                          ? 'Mixing complementary colors in sRGB can pass through gray'
+                          : 'The CSS includes an sRGB fallback for browsers without color interpolation support'}
+                      </p>
                     </TabsContent>
                     
                     <TabsContent value="advanced" className="space-y-6 mt-6">
-                      <div className="space-y-6">
-                        {colors.map((color, index) => {
-                          const isSelected = selectedColors.has(color.id);
-                          if (!isSelected) return null;
-                          
-                          return (
-                            <div key={color.id} className="space-y-3">
+                      {gradientOptions.type === 'radial' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-3">
+                            <Label className="text-sm font-medium text-[#0C0D7A]">Shape</Label>
+                            <Select
+                              value={gradientOptions.shape}
+                              onValueChange={(value) => updateGradientOptions({ shape: value as RadialShape })}
+                            >
+                              <SelectTrigger className="rounded-xl">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="ellipse">Ellipse</SelectItem>
+                                <SelectItem value="circle">Circle</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-3">
+                            <Label className="text-sm font-medium text-[#0C0D7A]">Size</Label>
+                            <Select
+                              value={gradientOptions.size}
+                              onValueChange={(value) => updateGradientOptions({ size: value as RadialSize })}
+                            >
+                              <SelectTrigger className="rounded-xl">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="closest-side">Closest side</SelectItem>
+                                <SelectItem value="closest-corner">Closest corner</SelectItem>
+                                <SelectItem value="farthest-side">Farthest side</SelectItem>
+                                <SelectItem value="farthest-corner">Farthest corner</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                      )}
+
+                      {gradientOptions.type !== 'linear' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          {(['x', 'y'] as const).map(axis => (
+                            <div key={axis} className="space-y-3">
+                              <Label className="text-sm font-medium text-[#0C0D7A]">
+                                Center {axis.toUpperCase()}
+                              </Label>
                               <div className="flex items-center gap-3">
-                                <div
-                                  className="w-8 h-8 rounded-xl soft-shadow"
-                                  style={{ backgroundColor: color.hex }}
-                                />
-                                <Label className="text-sm font-medium">{color.hex}</Label>
-                              </div>
-                              <div className="flex items-center gap-4">
                                 <Slider
-                                  value={[stops[index] || 0]}
-                                  onValueChange={(value) => updateStop(index, value[0])}
+                                  value={[gradientOptions.position[axis]]}
+                                  onValueChange={(value) =>
+                                    updateGradientOptions({
+                                      position: { ...gradientOptions.position, [axis]: value[0] }
+                                    })
+                                  }
                                   min={0}
                                   max={100}
                                   step={1}
                                   className="flex-1"
+                                  aria-label={`Center ${axis.toUpperCase()}`}
                                 />
-                                <div className="w-16 text-sm text-muted-foreground font-medium">
-                                  {stops[index] || 0}%
+                                <div className="w-12 text-sm text-muted-foreground font-medium">
+                                  {gradientOptions.position[axis]}%
                                 </div>
                               </div>
                             </div>
-                          );
-                        })}
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between gap-4">
+                        <Label className="text-base font-medium text-[#0C0D7A]">Color Stops</Label>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="rounded-full"
+                          onClick={distributeStopsByWeight}
+                        >
+                          Weight by dominance
+                        </Button>
                       </div>
+                      <GradientBar
+                        stops={layerStops}
+                        background={barBackground}
+                        lockedHints={easedSegments}
+                        onStopChange={updateStop}
+                        onStopEndChange={updateStopEnd}
+                        onStopRemove={toggleColor}
+                        onStopAdd={addStopAt}
+                        onHintChange={updateHint}
+                      />
+
+                      <EasingEditor
+                        colors={layerStops.map(stop => stop.color)}
+                        easings={activeLayer.easings}
+                        onChange={(easings) => updateActiveLayer(() => ({ easings }))}
+                      />
                     </TabsContent>
                   </Tabs>
                 </CardContent>
               </Card>
             )}
 
-            {/* CSS Output */}
+            {/* CSS and native code output */}
             {colors.length > 0 && (
               <Card className="border-0 soft-shadow-lg rounded-3xl overflow-hidden">
                 <CardContent className="p-2 lg:p-8">
@@ -530,10 +1129,10 @@ export default function PrismExtract() {
                       <div className="p-2 bg-primary/10 rounded-2xl">
                         <Copy className="w-5 h-5 text-primary" />
                       </div>
-                      <h2 className="text-xl font-semibold text-[#0C0D7A]">CSS Code</h2>
+                      <h2 className="text-xl font-semibold text-[#0C0D7A]">Code</h2>
                     </div>
                     <Button
-                      onClick={handleCopyCSS}
+                      onClick={handleCopyCode}
                       className="rounded-full"
                       size="lg"
                     >
@@ -550,15 +1149,41 @@ export default function PrismExtract() {
                       )}
                     </Button>
                   </div>
-                  
-                  <div className="bg-muted/50 rounded-2xl p-6 font-mono text-sm overflow-x-auto">
-                    <code className="text-foreground text-[#0C0D7A]">
-                      background: {gradientCSS};
+
+                  <Tabs value={codeTab} onValueChange={(value) => setCodeTab(value as 'css' | NativePlatform)}>
+                    <TabsList className="grid w-full grid-cols-5 h-auto rounded-2xl p-1 bg-muted/50">
+                      <TabsTrigger value="css" className="rounded-xl text-[#0C0D7A]">CSS</TabsTrigger>
+                      {(Object.keys(NATIVE_PLATFORMS) as NativePlatform[]).map(platform => (
+                        <TabsTrigger key={platform} value={platform} className="rounded-xl text-[#0C0D7A]">
+                          {NATIVE_PLATFORMS[platform].label}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                  {codeTab !== 'css' && (
+                    <p className="mt-3 text-xs text-muted-foreground">
+                      {layers.length > 1 ? 'Exports the selected layer. ' : ''}
+                      Save as {NATIVE_PLATFORMS[codeTab].filename}
+                    </p>
+                  )}
+
+                  <div className="mt-4 bg-muted/50 rounded-2xl p-6 font-mono text-sm overflow-x-auto">
+                    <code className="text-foreground text-[#0C0D7A] whitespace-pre">
+                      {outputCode}
                     </code>
                   </div>
                 </CardContent>
               </Card>
             )}
+
+            {/* Design token export */}
+            {colors.length > 0 && <DesignTokensExport colors={colors} layers={layers} />}
+
+            {/* Tailwind theme export */}
+            {colors.length > 0 && <TailwindExport colors={colors} layers={layers} />}
+
+            {/* Image export */}
+            {colors.length > 0 && <ImageExport colors={colors} layers={layers} />}
           </div>
         </div>
       </div>
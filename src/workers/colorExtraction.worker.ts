@@ -0,0 +1,46 @@
+/**
+ * Color extraction worker
+ * Decodes the image with createImageBitmap, samples it on an OffscreenCanvas
+ * and runs quantization off the UI thread
+ */
+
+import { getSampleSize, quantizeImageData } from '@/lib/colorExtractor';
+import type { ExtractionRequest, ExtractionResponse } from '@/lib/extractionWorker';
+
+async function handleRequest({ file, colorCount, options }: ExtractionRequest) {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const size = getSampleSize(bitmap.width, bitmap.height);
+    const canvas = new OffscreenCanvas(size.width, size.height);
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Could not get offscreen canvas context');
+    }
+
+    ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+    const imageData = ctx.getImageData(0, 0, size.width, size.height);
+
+    return quantizeImageData(imageData, colorCount, options);
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { id } = event.data;
+  let response: ExtractionResponse;
+  let transfer: Transferable[] = [];
+
+  try {
+    const result = await handleRequest(event.data);
+    response = { id, result };
+    // Hand the cluster map buffer over instead of copying it
+    transfer = [result.clusterMap.data.buffer];
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response, { transfer });
+};